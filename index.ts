@@ -2,141 +2,452 @@
 
 /**
  * Main entry point for the Better Thinking MCP Server.
- * This file sets up the MCP server, defines the `better_thinking` tool,
- * and handles requests by delegating the core logic to BetterThinkingToolLogic.
+ * This file parses the command line (serving by default, plus the offline `sessions` commands) and connects
+ * the server defined in `src/mcp-server.ts` to the selected transport. It runs the command as soon as it
+ * is loaded, so the tests import `createServer` from `src/mcp-server.ts` instead.
  */
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  Tool,
-} from "@modelcontextprotocol/sdk/types.js";
 import chalk from 'chalk';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
 
 // Import the core logic for the tool from the separate module.
 // Note: '.js' extension is needed for NodeNext module resolution compatibility.
-import { BetterThinkingToolLogic } from './src/better-thinking-tool.js';
-
-// --- Tool Definition (Metadata and Schema) ---
-// This defines how the tool appears to the MCP client (e.g., Claude).
-// The detailed description guides the LLM on how to use the tool effectively.
-// The schema defines the expected input parameters.
-const BETTER_THINKING_TOOL_DEFINITION: Tool = {
-  name: "better_thinking",
-  description: `A tool for structured, multi-step reasoning that reflects internal cognitive processes observed in LLMs (Anthropic Circuits Research, 2025). Use this to articulate not just conclusions, but the intermediate concepts, parallel considerations, planning hints, confidence levels, knowledge checks, and **goal alignment** involved.
-
-**Goal:** Enhance reasoning transparency, quality, and strategic alignment by using the provided fields to model a more realistic, goal-aware, circuit-inspired thought process.
-
-**Refined Guidance on Using Existing Fields:**
-
-*   **\`thought\` (string, required):** Articulate the core step clearly. Enhance richness by including:
-    *   **Reasoning Cluster (Supernode Idea):** Group related internal factors contributing to this step. *(e.g., "Reasoning Cluster (Supports 'Texas'): {Concept: City:Dallas (strong), Concept: Mention of 'South' (medium), Heuristic: Geography (medium)}")*.
-    *   **Goal Context:** Briefly state how this step connects to the immediate sub-goal (short-term outcome), contributes to the overall task objective (long-term/final outcome), and fits within the big picture context.
-    *   **Progress Assessment:** Indicate if this step successfully achieves a sub-goal or represents clear progress towards the final outcome.
-    *   **Calculation/Reasoning Method:** Specify how results were obtained (calculation, heuristic, retrieval, backward reasoning, etc.) for faithfulness. *(e.g., "Method: Parallel Heuristics (ones digit + magnitude estimate)")*.
-    *   **Planning/Strategy Notes:** Mention candidate actions/endpoints considered. *(e.g., "Plan: Rhyme with 'it'. Candidates: 'rabbit', 'habit'. Choosing 'rabbit'.")*.
-    *   **Considered Alternatives (Simplified):** Note competing hypotheses considered but not pursued in this step lightweightly. *(e.g., "Option A (Chosen): Direct calc. Option B (Considered): Estimation.")*. Reserve \`branchId\` for paths actually explored over multiple steps.
-    *   **Intermediate Concepts:** Name key abstract concepts activated or used. *(e.g., "Intermediate Concept Activated: 'State:Texas'")*.
-    *   **Context Effects:** Note if low-level factors (grammar, instructions) heavily influence the step.
-
-*   **\`confidence_score\` (number, 0.0-1.0, optional):** Reflect internal certainty in the step's conclusion. Optionally, relate confidence to its perceived effectiveness in advancing towards desired short-term and long-term outcomes.
-
-*   **\`knowledge_assessment\` (Array of {entity, status}, optional):** Proactively model internal knowledge checks *before* asserting facts. Flag entities as 'known', 'unknown', or 'uncertain' to mitigate hallucination. *(e.g., \`[{"entity": "Andrej Karpathy", "status": "uncertain"}]\`)*.
-
-*   **\`isRevision\` / \`revisesThought\` (optional):** Model internal belief updates or course corrections based on new information or inferences.
-
-*   **\`branchFromThought\` / \`branchId\` (optional):** Explicitly model the exploration of parallel, competing hypotheses or strategies *when pursued over subsequent steps*.
-
-*   **\`thoughtNumber\`, \`totalThoughts\`, \`nextThoughtNeeded\` (required):** Manage sequence flow. \`totalThoughts\` estimates steps to the **final outcome**; adjust as needed. \`nextThoughtNeeded=false\` signifies achievement of the **final outcome**, supported by the reasoning chain.
-
-**Overall:** Aim for a granular, reflective, and **goal-oriented** process. Articulate the 'why' (concepts, plans, goals) not just the 'what'. Use optional fields to expose uncertainty, knowledge limits, internal checks, and strategic alignment.`,
-  inputSchema: {
-    type: "object",
-    properties: {
-      thought: { type: "string", description: "Core reasoning step, enriched with intermediate concepts, hypotheses, plans, calculation methods, or reflections." },
-      nextThoughtNeeded: { type: "boolean", description: "True if more steps needed, False when final answer reached and verified." },
-      thoughtNumber: { type: "integer", description: "Current step number (>= 1).", minimum: 1 },
-      totalThoughts: { type: "integer", description: "Current estimate of total thoughts needed (>= 1). Adjust as needed.", minimum: 1 },
-      confidence_score: { type: "number", minimum: 0, maximum: 1, description: "Confidence (0.0-1.0) in this thought's conclusion, reflecting internal certainty (Optional)." },
-      knowledge_assessment: {
-        type: "array",
-        items: {
-          type: "object",
-          properties: {
-            entity: { type: "string", description: "The specific entity being assessed." },
-            status: { type: "string", enum: ['known', 'unknown', 'uncertain'], description: "Internal check: 'known', 'unknown', or 'uncertain'." }
-          },
-          required: ["entity", "status"]
-        },
-        description: "Proactive assessment of knowledge about key entities to avoid hallucination (Optional)."
+import { BetterThinkingToolLogic, ThinkingSession, ToolResponse } from './src/better-thinking-tool.js';
+import { startHttpTransport } from './src/http-transport.js';
+import { LOG_FORMATS, LOG_LEVELS, LogFormat, logger, LogLevel } from './src/logger.js';
+import { createServer, serverInfo } from './src/mcp-server.js';
+import { loadPolicyConfig, PolicyEngine } from './src/policies.js';
+import { analyzeSession } from './src/session-analysis.js';
+import { EXPORT_FORMATS, ExportFormat, renderSession } from './src/session-export.js';
+import { FileThoughtStore, InMemoryThoughtStore, ThoughtStore } from './src/thought-store.js';
+import { RENDER_MODES, renderThought, RenderMode } from './src/thought-renderer.js';
+
+// --- Server Setup ---
+
+/**
+ * Reads an optional positive integer from an environment variable.
+ * @param name The environment variable to read.
+ * @returns The parsed value, or `undefined` if the variable is unset.
+ */
+function readPositiveIntEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer, got "${raw}".`);
+  }
+  return value;
+}
+
+/**
+ * Selects the storage backend. Sessions are kept in memory unless a storage directory
+ * (`--storage-dir` or BETTER_THINKING_STORAGE_DIR) is given for durable JSONL logs.
+ * @param directory Directory for the session logs (Optional).
+ * @param clientId HTTP client whose logs are kept in `<directory>/clients/<clientId>`, so clients never share sessions (Optional).
+ */
+function createThoughtStore(directory?: string, clientId?: string): ThoughtStore {
+  if (!directory) {
+    return new InMemoryThoughtStore();
+  }
+  return new FileThoughtStore({
+    directory: clientId ? path.join(directory, 'clients', clientId) : directory,
+    maxSessions: readPositiveIntEnv('BETTER_THINKING_MAX_SESSIONS'),
+    maxSessionBytes: readPositiveIntEnv('BETTER_THINKING_MAX_SESSION_BYTES'),
+  });
+}
+
+// --- Run Server ---
+
+/** The transports the server can be reached over. */
+const TRANSPORTS = ['stdio', 'http'] as const;
+type TransportKind = typeof TRANSPORTS[number];
+
+/**
+ * Options of the `serve` command.
+ */
+interface ServeOptions {
+  transport: TransportKind;
+  host: string;
+  port: number;
+  storageDir?: string;
+  policyFile?: string;
+  policy?: string[];
+  render: RenderMode;
+}
+
+/**
+ * Closes the server on SIGINT/SIGTERM and exits once it is shut down.
+ * @param close Stops accepting work and closes open connections.
+ */
+function exitOnSignals(close: () => Promise<void>) {
+  let closing = false;
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (closing) {
+      return;
+    }
+    closing = true;
+    logger.info(chalk.gray(`Received ${signal}, shutting down...`), { event: 'shutdown', signal });
+    close()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        logger.error(chalk.red(`❌ Shutdown failed: ${error instanceof Error ? error.message : error}`), { event: 'shutdown_failed' });
+        process.exit(1);
+      });
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+/**
+ * Builds the guardrail policy engine from a JSON policy file and `rule=severity[:limit]` overrides.
+ */
+function createPolicyEngine(options: { policyFile?: string; policy?: string[] }): PolicyEngine {
+  return new PolicyEngine(loadPolicyConfig({ file: options.policyFile, overrides: options.policy }));
+}
+
+/**
+ * Initializes the tool logic and the selected transport and starts listening for connections.
+ * Over stdio there is a single client; over HTTP every connection gets its own server and tool logic,
+ * so sessions are isolated per connection.
+ * @param options The transport and its host and port, storage, policies and console rendering.
+ */
+async function runServer(options: ServeOptions) {
+  const policies = createPolicyEngine(options);
+  const logicOptions = { render: options.render };
+
+  if (options.transport === 'http') {
+    const http = await startHttpTransport({
+      host: options.host,
+      port: options.port,
+      version: serverInfo.version,
+      createServer: ({ connectionId, clientId }) => {
+        // Only a client id stays the same across reconnects, so anonymous connections are not persisted.
+        if (options.storageDir && clientId === undefined) {
+          logger.warn(chalk.yellow(`Warning: Connection ${connectionId} sent no client id, so its sessions are kept in memory only. Connect to /sse?clientId=<id> to persist them.`), { event: 'connection_not_persisted', connection: connectionId });
+        }
+        const store = clientId === undefined ? new InMemoryThoughtStore() : createThoughtStore(options.storageDir, clientId);
+        return createServer(new BetterThinkingToolLogic(store, policies, logicOptions));
       },
-      isRevision: { type: "boolean", description: "True if this represents an internal belief update or correction (Optional)." },
-      revisesThought: { type: "integer", description: "If revising, the number of the thought being updated (Optional).", minimum: 1 },
-      branchFromThought: { type: "integer", description: "If exploring alternatives, the thought number this diverges from (Optional).", minimum: 1 },
-      branchId: { type: "string", description: "Identifier for the alternative exploration branch (Optional)." },
-      needsMoreThoughts: { type: "boolean", description: "Deprecated. Use nextThoughtNeeded (Optional)." } // Keep schema for compatibility, logic ignores it
-    },
-    required: ["thought", "nextThoughtNeeded", "thoughtNumber", "totalThoughts"]
+    });
+    exitOnSignals(() => http.close());
+    logger.info(chalk.bold.inverse(` Better Thinking MCP Server Running (v${serverInfo.version}) on ${http.url} `), { event: 'server_started', transport: 'http', url: http.url, version: serverInfo.version });
+    return;
   }
-};
 
-// --- Server Setup ---
+  const server = createServer(new BetterThinkingToolLogic(createThoughtStore(options.storageDir), policies, logicOptions));
+  const transport = new StdioServerTransport(); // Use standard I/O for communication
+  await server.connect(transport);
+  exitOnSignals(() => server.close());
+  logger.info(chalk.bold.inverse(` Better Thinking MCP Server Running (v${serverInfo.version}) `), { event: 'server_started', transport: 'stdio', version: serverInfo.version }); // Log server start to stderr using the constant
+}
+
+// --- Offline Commands ---
 
-// Define server metadata
-const serverInfo = {
-  name: "better-thinking-server",
-  version: "0.6.4", // Match package.json version
-};
+/**
+ * Where an offline command reads sessions from: a storage directory of session logs,
+ * or a JSON session export.
+ */
+interface SessionSource {
+  storageDir?: string;
+  file?: string;
+}
 
-// Create the main MCP Server instance with metadata.
-const server = new Server(serverInfo, {
-    capabilities: {
-      tools: {}, // Tools are dynamically listed via request handler
-    },
+/**
+ * Loads the sessions of a source into a tool logic instance. An export file is imported into memory, so it is never modified.
+ * @param source The storage directory or export file.
+ * @returns The tool logic holding the loaded sessions.
+ * @throws {Error} If neither source is given or the export cannot be imported.
+ */
+function openSource(source: SessionSource): BetterThinkingToolLogic {
+  if (source.file) {
+    const toolLogic = new BetterThinkingToolLogic();
+    const response = toolLogic.importSession({ document: fs.readFileSync(source.file, 'utf8') });
+    if (response.isError) {
+      throw new Error(`Cannot load ${source.file}: ${JSON.parse(response.content[0].text).error}`);
+    }
+    return toolLogic;
   }
-);
+  if (!source.storageDir) {
+    throw new Error('No sessions to read: pass --storage-dir (or set BETTER_THINKING_STORAGE_DIR) or --file.');
+  }
+  // Read-only, so that reading next to a running server never truncates a record it is still writing.
+  return new BetterThinkingToolLogic(new FileThoughtStore({ directory: source.storageDir, readOnly: true }));
+}
 
-// Instantiate the class containing the actual tool logic.
-const toolLogic = new BetterThinkingToolLogic();
+/**
+ * Loads one session from a storage directory or an export file.
+ * @param sessionId The session to load; optional for an export file, which holds a single session.
+ * @param source The storage directory or export file.
+ * @returns The session.
+ * @throws {Error} If the session does not exist.
+ */
+function loadSession(sessionId: string | undefined, source: SessionSource): ThinkingSession {
+  const toolLogic = openSource(source);
+  const listed = JSON.parse(toolLogic.listSessions({}).content[0].text).sessions as Array<{ session_id: string }>;
+  const id = sessionId ?? (source.file ? listed[0]?.session_id : undefined);
+  if (id === undefined) {
+    throw new Error('Missing session id: pass <sessionId> to read from a storage directory.');
+  }
+  const session = toolLogic.getSession(id);
+  if (!session) {
+    throw new Error(`Unknown session: ${id} (in ${source.file ?? source.storageDir}).`);
+  }
+  return session;
+}
 
-// --- Request Handlers ---
+/**
+ * Writes a document to stdout, or to a file if one is given.
+ */
+function writeOutput(document: string, output?: string) {
+  const text = document.endsWith('\n') ? document : document + '\n';
+  if (output) {
+    fs.writeFileSync(output, text);
+  } else {
+    process.stdout.write(text);
+  }
+}
+
+/**
+ * Lists the sessions in a storage directory.
+ * @param options The storage directory, and whether to print the raw JSON listing.
+ */
+async function runList(options: { storageDir?: string; json: boolean }) {
+  if (!options.storageDir) {
+    throw new Error('No storage directory: pass --storage-dir or set BETTER_THINKING_STORAGE_DIR.');
+  }
+  const listing = JSON.parse(openSource({ storageDir: options.storageDir }).listSessions({}).content[0].text);
+  if (options.json) {
+    writeOutput(JSON.stringify(listing.sessions, null, 2));
+    return;
+  }
+  const sessions = listing.sessions as Array<{ session_id: string; title: string | null; status: string; created_at: string; total_history_length: number; branches: string[] }>;
+  if (sessions.length === 0) {
+    writeOutput(`No sessions in ${options.storageDir}.`);
+    return;
+  }
+  writeOutput(sessions.map(session =>
+    `${chalk.bold(session.session_id)}  ${session.status === 'open' ? chalk.green('open') : chalk.gray('closed')}  ${session.total_history_length} thoughts, ${session.branches.length} branches  ${chalk.gray(session.created_at)}${session.title ? `  ${session.title}` : ''}`
+  ).join('\n'));
+}
+
+/**
+ * Prints every thought of a session as it was rendered on the server console.
+ * @param options The session, where to read it from, and the render mode.
+ */
+async function runShow(options: SessionSource & { sessionId?: string; render: Exclude<RenderMode, 'off'> }) {
+  const session = loadSession(options.sessionId, options);
+  const width = process.stdout.isTTY && process.stdout.columns ? process.stdout.columns : undefined;
+  const header = `${chalk.bold(`Session ${session.id}`)}${session.title ? `: ${session.title}` : ''} (${session.closedAt ? 'closed' : 'open'}, ${session.thoughtHistory.length} thoughts)`;
+  writeOutput([header, ...session.thoughtHistory.map(thought => renderThought(thought, options.render, width))].join('\n'));
+}
 
-// Handles requests from the client to list available tools.
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: [BETTER_THINKING_TOOL_DEFINITION], // Return the defined tool
-}));
+/**
+ * Renders a session as Mermaid, Graphviz DOT, Markdown or JSON, to stdout or a file.
+ * @param options The session, where to read it from, the format and an optional output file.
+ */
+async function runExport(options: SessionSource & { sessionId?: string; format: ExportFormat; output?: string }) {
+  const session = loadSession(options.sessionId, options);
+  writeOutput(renderSession(session, options.format), options.output);
+  if (options.output) {
+    logger.info(chalk.green(`📤 Exported session ${session.id} as ${options.format} to ${options.output}`), { event: 'session_exported', session: session.id, format: options.format });
+  }
+}
 
-// Handles requests from the client to execute a tool.
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  // Check if the requested tool name matches our tool.
-  if (request.params.name === BETTER_THINKING_TOOL_DEFINITION.name) {
-    // Delegate the actual processing to the dedicated logic class instance.
-    return toolLogic.processThought(request.params.arguments);
+/**
+ * Prints the reasoning quality analysis of a session.
+ * @param options The session, where to read it from, and whether to print the raw JSON analysis.
+ */
+async function runAnalyze(options: SessionSource & { sessionId?: string; json: boolean }) {
+  const session = loadSession(options.sessionId, options);
+  const analysis = analyzeSession(session);
+  if (options.json) {
+    writeOutput(JSON.stringify({ session_id: session.id, total_history_length: session.thoughtHistory.length, ...analysis }, null, 2));
+    return;
   }
+  const lines = [
+    `${chalk.bold(`Session ${session.id}`)}: ${session.thoughtHistory.length} thoughts, confidence trend ${analysis.confidence.trend}`,
+    ...(analysis.warnings.length > 0
+      ? analysis.warnings.map(warning => `  ${chalk.yellow('⚠')} ${warning}`)
+      : [`  ${chalk.green('✔')} No issues found.`]),
+  ];
+  writeOutput(lines.join('\n'));
+}
 
-  // Handle calls for unknown tools.
-  console.error(chalk.red(`Received call for unknown tool: ${request.params.name}`));
-  return {
-    content: [{ type: "text", text: `Unknown tool: ${request.params.name}` }],
-    isError: true
+/**
+ * Replays a session's thoughts through a fresh server with the given policies, as if a client sent them again,
+ * together with the session's own stricter settings, and reports the outcome of every step. Useful to check old sessions against new guardrail policies.
+ * @param options The session, where to read it from, the policies and the render mode.
+ * @throws {Error} If a step is rejected; the replay stops there.
+ */
+async function runReplay(options: SessionSource & { sessionId?: string; policyFile?: string; policy?: string[]; render: RenderMode }) {
+  const session = loadSession(options.sessionId, options);
+  const toolLogic = new BetterThinkingToolLogic(new InMemoryThoughtStore(), createPolicyEngine(options), { render: options.render });
+  const report = (label: string, response: ToolResponse) => {
+    const payload = JSON.parse(response.content[0].text);
+    if (response.isError) {
+      writeOutput(`${chalk.red('✘')} ${label}: ${payload.error}`);
+      throw new Error(`Replay of session ${session.id} stopped at ${label}.`);
+    }
+    writeOutput(`${chalk.green('✔')} ${label}${payload.warnings?.length ? chalk.yellow(` (${payload.warnings.length} warning${payload.warnings.length === 1 ? '' : 's'})`) : ''}`);
+    (payload.warnings ?? []).forEach((warning: string) => writeOutput(`    ${chalk.yellow(warning)}`));
   };
-});
 
-// --- Run Server ---
+  toolLogic.startSession({ sessionId: session.id, title: session.title, policies: session.policies });
+  if (session.goals) {
+    report('goals', toolLogic.declareGoals({ sessionId: session.id, goal: session.goals.goal, subgoals: session.goals.subgoals }));
+  }
+  // Branch resolutions are replayed after the thoughts they were made after.
+  const resolveBranches = (position: number) => Object.entries(session.branchResolutions)
+    .filter(([, resolution]) => resolution.position === position)
+    .forEach(([branchId, { status, reason }]) => report(`${status === 'adopted' ? 'adopt' : 'abandon'} branch ${branchId}`, status === 'adopted'
+      ? toolLogic.adoptBranch({ sessionId: session.id, branchId, reason })
+      : toolLogic.abandonBranch({ sessionId: session.id, branchId, reason })));
+  session.thoughtHistory.forEach((thought, index) => {
+    resolveBranches(index);
+    report(`step ${index + 1} (thought ${thought.thoughtNumber}${thought.branchId ? `, branch ${thought.branchId}` : ''})`, toolLogic.processThought({ ...thought, sessionId: session.id }));
+  });
+  resolveBranches(session.thoughtHistory.length);
+  if (session.closedAt) {
+    report('close', toolLogic.closeSession({ sessionId: session.id }));
+  }
+}
+
+// --- Command Line ---
 
 /**
- * Initializes the server transport (Stdio) and starts listening for connections.
+ * Parses the command line and runs the selected command: serving by default,
+ * or one of the offline `sessions` commands that work on persisted or exported sessions.
  */
-async function runServer() {
-  const transport = new StdioServerTransport(); // Use standard I/O for communication
-  await server.connect(transport);
-  console.error(chalk.bold.inverse(` Better Thinking MCP Server Running (v${serverInfo.version}) `)); // Log server start to stderr using the constant
+async function main() {
+  const storageDirOption = { type: 'string', default: process.env.BETTER_THINKING_STORAGE_DIR, describe: 'Directory holding the session logs' } as const;
+  const fileOption = { type: 'string', describe: 'Read the session from a JSON session export instead of the storage directory' } as const;
+  const policyFileOption = { type: 'string', default: process.env.BETTER_THINKING_POLICY_FILE, describe: 'JSON file with guardrail policy rules' } as const;
+  const policyOption = { type: 'string', array: true, describe: 'Override a policy rule as rule=severity[:limit], e.g. maxThoughtsPerSession=error:50' } as const;
+  const renderOption = { choices: RENDER_MODES, default: 'box' as RenderMode, describe: 'How each processed thought is rendered on stderr' } as const;
+  const consoleRenderOption = { type: 'boolean', describe: 'Render each processed thought on stderr (--no-console-render is an alias of --render off)' } as const;
+  const sessionIdPositional = { type: 'string', describe: 'Session to read (optional with --file)' } as const;
+
+  await yargs(hideBin(process.argv))
+    .scriptName('better-thinking-mcp')
+    .option('log-level', { choices: LOG_LEVELS, default: 'info' as LogLevel, global: true, describe: 'Minimum level of messages written to stderr' })
+    .option('log-format', { choices: LOG_FORMATS, default: 'text' as LogFormat, global: true, describe: 'Write stderr messages as text or as NDJSON records' })
+    .option('color', { type: 'boolean', global: true, describe: 'Force colored output on or off (default: auto-detect)' })
+    .middleware((argv) => {
+      logger.setLevel(argv.logLevel);
+      logger.setFormat(argv.logFormat);
+      if (argv.color !== undefined) {
+        chalk.level = argv.color ? (chalk.level || 1) : 0;
+      }
+    })
+    .command(
+      ['serve', '$0'],
+      'Run the MCP server (over stdio by default, or over HTTP with --transport http)',
+      (args) => args
+        .option('transport', { alias: 't', choices: TRANSPORTS, default: 'stdio' as TransportKind, describe: 'Transport to serve MCP over' })
+        .option('host', { type: 'string', default: '127.0.0.1', describe: 'Host to bind the HTTP transport to' })
+        .option('port', { alias: 'p', type: 'number', default: 3000, describe: 'Port for the HTTP transport (0 picks a free port)' })
+        .option('storage-dir', { ...storageDirOption, describe: 'Directory for durable session logs (in memory if unset)' })
+        .option('policy-file', policyFileOption)
+        .option('policy', policyOption)
+        .option('render', renderOption)
+        .option('console-render', consoleRenderOption),
+      (argv) => runServer({
+        transport: argv.transport,
+        host: argv.host,
+        port: argv.port,
+        storageDir: argv.storageDir,
+        policyFile: argv.policyFile,
+        policy: argv.policy,
+        render: argv.consoleRender === false ? 'off' : argv.render,
+      })
+    )
+    .command(
+      'sessions',
+      'Inspect persisted or exported sessions without an MCP client',
+      (args) => args
+        .command(
+          'list',
+          'List the sessions in the storage directory',
+          (sub) => sub
+            .option('storage-dir', storageDirOption)
+            .option('json', { type: 'boolean', default: false, describe: 'Print the listing as JSON' }),
+          (argv) => runList({ storageDir: argv.storageDir, json: argv.json })
+        )
+        .command(
+          'show [sessionId]',
+          'Print every thought of a session',
+          (sub) => sub
+            .positional('sessionId', sessionIdPositional)
+            .option('storage-dir', storageDirOption)
+            .option('file', fileOption)
+            .option('render', { ...renderOption, choices: ['box', 'compact'] as const, describe: 'How each thought is rendered' }),
+          (argv) => runShow({ sessionId: argv.sessionId, storageDir: argv.storageDir, file: argv.file, render: argv.render as Exclude<RenderMode, 'off'> })
+        )
+        .command(
+          'export [sessionId]',
+          'Export a session as Mermaid, Graphviz DOT, Markdown or JSON',
+          (sub) => sub
+            .positional('sessionId', sessionIdPositional)
+            .option('format', { alias: 'f', choices: EXPORT_FORMATS, default: 'markdown' as ExportFormat, describe: 'Output format' })
+            .option('storage-dir', storageDirOption)
+            .option('file', fileOption)
+            .option('output', { alias: 'o', type: 'string', describe: 'Write to this file instead of stdout' }),
+          (argv) => runExport({ sessionId: argv.sessionId, format: argv.format, storageDir: argv.storageDir, file: argv.file, output: argv.output })
+        )
+        .command(
+          'analyze [sessionId]',
+          'Print the reasoning quality analysis of a session',
+          (sub) => sub
+            .positional('sessionId', sessionIdPositional)
+            .option('storage-dir', storageDirOption)
+            .option('file', fileOption)
+            .option('json', { type: 'boolean', default: false, describe: 'Print the analysis as JSON' }),
+          (argv) => runAnalyze({ sessionId: argv.sessionId, storageDir: argv.storageDir, file: argv.file, json: argv.json })
+        )
+        .command(
+          'replay [sessionId]',
+          'Replay a session step by step against the guardrail policies',
+          (sub) => sub
+            .positional('sessionId', sessionIdPositional)
+            .option('storage-dir', storageDirOption)
+            .option('file', fileOption)
+            .option('policy-file', policyFileOption)
+            .option('policy', policyOption)
+            .option('render', renderOption)
+            .option('console-render', consoleRenderOption),
+          (argv) => runReplay({
+            sessionId: argv.sessionId,
+            storageDir: argv.storageDir,
+            file: argv.file,
+            policyFile: argv.policyFile,
+            policy: argv.policy,
+            render: argv.consoleRender === false ? 'off' : argv.render,
+          })
+        )
+        .demandCommand(1, 'Choose a sessions command.'),
+    )
+    .strict()
+    .help()
+    .fail((message, error, cli) => {
+      // Usage mistakes get the help text; command failures are reported once, below.
+      if (error) {
+        throw error;
+      }
+      cli.showHelp();
+      throw new Error(message);
+    })
+    .parseAsync();
 }
 
-// Start the server and handle potential fatal errors during startup.
-runServer().catch((error) => {
-  console.error(chalk.red("❌ Fatal error running server:"), error);
-  process.exit(1); // Exit if server fails to start
-});
\ No newline at end of file
+// Run the selected command and handle potential fatal errors.
+main().catch((error) => {
+  logger.error(chalk.red(`❌ Fatal error: ${error instanceof Error ? error.message : error}`), { event: 'fatal_error' });
+  process.exit(1); // Exit if the server fails to start or a command fails
+});
+
@@ -1,18 +1,16 @@
 import chalk from 'chalk';
 
-// --- Helper Function ---
-
-/**
- * Removes ANSI escape codes (used for terminal colors) from a string.
- * Useful for calculating the display width of text without color codes.
- * @param str The string potentially containing ANSI codes.
- * @returns The string with ANSI codes removed.
- */
-function stripAnsi(str: string): string {
-    // eslint-disable-next-line no-control-regex
-    const ansiRegex = /[\u001b\u009b][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g;
-    return str.replace(ansiRegex, '');
-}
+import { BranchResolution, checkBranchAcceptsThoughts, checkBranchResolvable, openBranches, summarizeBranch } from './branch-lifecycle.js';
+import { checkSubgoalReference, declareGoals, goalProgress, SessionGoals } from './goal-tracker.js';
+import { branchThoughts, effectiveChain, findThoughts, Page, paginate, searchThoughts, ThoughtEntry } from './history-queries.js';
+import { LogContext, logger } from './logger.js';
+import { parsePolicyRules, PolicyEngine, PolicyError, PolicyViolation, SessionPolicyOverrides } from './policies.js';
+import { analyzeSession } from './session-analysis.js';
+import { EXPORT_FORMATS, ExportFormat, parseSessionExport, renderSession } from './session-export.js';
+import { CHARACTERS_PER_TOKEN, DEFAULT_SUMMARY_CHARACTERS, MIN_SUMMARY_CHARACTERS, SummaryCheckpoint, summarizeSession } from './session-summary.js';
+import { MAIN_LINE, ThoughtGraph, ThoughtNode } from './thought-graph.js';
+import { renderThought, RenderMode } from './thought-renderer.js';
+import { InMemoryThoughtStore, SessionEvent, ThoughtStore } from './thought-store.js';
 
 // --- Interfaces ---
 
@@ -26,6 +24,39 @@ export interface KnowledgeAssessment {
     status: 'known' | 'unknown' | 'uncertain';
 }
 
+/** Progress of a goal or sub-goal. */
+export type GoalStatus = 'open' | 'achieved' | 'blocked' | 'abandoned';
+
+export const GOAL_STATUSES: readonly GoalStatus[] = ['open', 'achieved', 'blocked', 'abandoned'];
+
+/**
+ * A goal or sub-goal that a thought works towards.
+ */
+export interface GoalState {
+    /** What the goal is, e.g. "Find the failing request path". */
+    description: string;
+    /** How far the goal has come as of this thought. */
+    status: GoalStatus;
+    /** On a `subgoal`, the id of the declared sub-goal it reports on (Optional; matched by description otherwise). */
+    id?: string;
+}
+
+/** How a thought's result was obtained. */
+export type ReasoningMethod = 'calculation' | 'heuristic' | 'retrieval' | 'backward';
+
+export const REASONING_METHODS: readonly ReasoningMethod[] = ['calculation', 'heuristic', 'retrieval', 'backward'];
+
+/**
+ * An option that was weighed in a thought, and whether it was taken.
+ */
+export interface ConsideredAlternative {
+    /** The option, e.g. "Estimate from the population". */
+    option: string;
+    decision: 'chosen' | 'rejected';
+    /** Why the option was chosen or rejected (Optional). */
+    reason?: string;
+}
+
 /**
  * Represents the data structure for a single step in the better thinking process.
  * Captures the core thought and associated metadata reflecting internal cognitive states.
@@ -51,20 +82,460 @@ export interface ThoughtData {
     branchFromThought?: number;
     /** A unique identifier for the alternative path initiated by `branchFromThought`. */
     branchId?: string;
+    /** On a branch thought, the `thoughtNumber` on another line that this branch's conclusion merges into. */
+    mergeIntoThought?: number;
+    /** The overall goal this thought serves, with its status. */
+    goal?: GoalState;
+    /** The immediate sub-goal this thought works on, with its status. */
+    subgoal?: GoalState;
+    /** How the thought's result was obtained. */
+    method?: ReasoningMethod;
+    /** Options weighed in this step, chosen or rejected. */
+    alternatives?: ConsideredAlternative[];
+    /** Key intermediate concepts used in this step. */
+    concepts?: string[];
+    /** Thought numbers of earlier thoughts this step relies on. */
+    evidence?: number[];
     /** Deprecated flag, replaced by `nextThoughtNeeded`. */
     needsMoreThoughts?: boolean; // Kept for schema compatibility if needed, but logic uses nextThoughtNeeded
 }
 
+/**
+ * An independent reasoning session. Each session owns its own thought history and branches,
+ * so unrelated problems (or different clients of a long-running server) never mix their thoughts.
+ */
+export interface ThinkingSession {
+    /** Unique identifier used to address the session in tool calls. */
+    id: string;
+    /** Optional human-readable label describing the problem being reasoned about. */
+    title?: string;
+    /** ISO timestamp of when the session was started. */
+    createdAt: string;
+    /** ISO timestamp of when the session was closed. Closed sessions reject new thoughts. */
+    closedAt?: string;
+    /** Session-specific guardrail settings, e.g. the defaults of the prompt that started it. */
+    policies?: SessionPolicyOverrides;
+    /** The top-level goal and sub-goals declared for the session, if any. */
+    goals?: SessionGoals;
+    /** All thoughts recorded in this session, in the order they were processed. */
+    thoughtHistory: ThoughtData[];
+    /** Parallel reasoning branches recorded in this session, keyed by `branchId`. */
+    branches: Record<string, ThoughtData[]>;
+    /** Branches that were abandoned or adopted as the main line, keyed by `branchId`. */
+    branchResolutions: Record<string, BranchResolution>;
+    /** The latest summary checkpoint, if one was taken. */
+    checkpoint?: SummaryCheckpoint;
+    /** The session's thoughts as a graph with sequence, branch, merge and revision edges. */
+    graph: ThoughtGraph;
+}
+
+/**
+ * Options controlling how the tool logic reports to the server console.
+ */
+export interface ToolLogicOptions {
+    /** How every processed thought is rendered on stderr (Optional, defaults to `box`). */
+    render?: RenderMode;
+}
+
+/**
+ * A change to the sessions held by the tool logic, reported to change listeners.
+ * - `thought_recorded`: a thought was appended to a session.
+ * - `branch_resolved`: a branch was abandoned or adopted as the main line.
+ * - `session_updated`: a session was closed, declared goals or saved a summary checkpoint.
+ * - `sessions_changed`: a session was started, closed, imported or removed.
+ */
+export type SessionChange =
+    | { type: 'thought_recorded'; session: ThinkingSession; node: ThoughtNode }
+    | { type: 'branch_resolved'; session: ThinkingSession; branchId: string }
+    | { type: 'session_updated'; session: ThinkingSession }
+    | { type: 'sessions_changed' };
+
+/**
+ * The result shape returned by every tool handler to the MCP client.
+ */
+export type ToolResponse = {
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+};
+
 // --- Core Tool Logic Class ---
 
 /**
- * Manages the state and processing logic for the `better_thinking` tool.
- * It validates input, maintains thought history (including branches),
+ * Manages the state and processing logic for the `better_thinking` tool and its session tools.
+ * It validates input, maintains per-session thought history (including branches),
  * formats output for display, and returns structured results or errors.
  */
 export class BetterThinkingToolLogic {
-    private thoughtHistory: ThoughtData[] = [];
-    private branches: Record<string, ThoughtData[]> = {}; // Stores parallel reasoning branches
+    private sessions = new Map<string, ThinkingSession>(); // All known sessions, keyed by id
+    private activeSessionId: string | null = null; // Session used when a call omits `sessionId`
+    private sessionCounter = 0; // Used to generate ids for sessions started without an explicit id
+    private changeListeners = new Set<(change: SessionChange) => void>();
+
+    /**
+     * Creates the tool logic and restores any sessions persisted in the store.
+     * @param store Storage backend for session events. Defaults to in-memory storage.
+     * @param policies Guardrail rules applied to every thought and session close. Defaults to the default policy.
+     * @param options Console output options.
+     */
+    constructor(
+        private readonly store: ThoughtStore = new InMemoryThoughtStore(),
+        private readonly policies: PolicyEngine = new PolicyEngine(),
+        private readonly options: ToolLogicOptions = {},
+    ) {
+        for (const [sessionId, events] of store.load()) {
+            this.restoreSession(sessionId, events);
+        }
+        if (this.sessions.size > 0) {
+            logger.info(chalk.gray(`📂 Restored ${this.sessions.size} session(s) from storage`), { event: 'sessions_restored', count: this.sessions.size });
+        }
+    }
+
+    /**
+     * Rebuilds a session's in-memory state by replaying its stored events.
+     * @param sessionId The id the events were stored under.
+     * @param events The session's events in append order.
+     */
+    private restoreSession(sessionId: string, events: SessionEvent[]): void {
+        const session: ThinkingSession = {
+            id: sessionId,
+            createdAt: events[0].at,
+            thoughtHistory: [],
+            branches: {},
+            branchResolutions: {},
+            graph: new ThoughtGraph(),
+        };
+
+        for (const event of events) {
+            switch (event.type) {
+                case 'session_started':
+                    session.title = event.title;
+                    session.createdAt = event.at;
+                    session.policies = event.policies;
+                    break;
+                case 'thought':
+                    try {
+                        this.recordThought(session, event.thought);
+                    } catch (error) {
+                        // Logs written before references were checked may contain dangling ones.
+                        const reason = error instanceof Error ? error.message : String(error);
+                        logger.warn(chalk.yellow(`Warning: Skipping stored thought ${event.thought.thoughtNumber} of session ${sessionId}: ${reason}`), { event: 'stored_thought_skipped', session: sessionId, thought: event.thought.thoughtNumber });
+                    }
+                    break;
+                case 'goals_declared':
+                    session.goals = { goal: event.goal, subgoals: event.subgoals };
+                    break;
+                case 'branch_abandoned':
+                case 'branch_adopted':
+                    try {
+                        this.resolveBranch(session, event.branchId, { status: event.type === 'branch_adopted' ? 'adopted' : 'abandoned', at: event.at, reason: event.reason, position: session.thoughtHistory.length });
+                    } catch (error) {
+                        const reason = error instanceof Error ? error.message : String(error);
+                        logger.warn(chalk.yellow(`Warning: Skipping stored resolution of branch ${event.branchId} in session ${sessionId}: ${reason}`), { event: 'stored_branch_resolution_skipped', session: sessionId, branch: event.branchId });
+                    }
+                    break;
+                case 'summary_checkpoint':
+                    session.checkpoint = { at: event.at, position: event.position, summary: event.summary };
+                    break;
+                case 'session_closed':
+                    session.closedAt = event.at;
+                    break;
+            }
+        }
+        this.sessions.set(sessionId, session);
+    }
+
+    /**
+     * Adds an already validated and stored thought to a session's graph, history and branches.
+     * @param session The session to update.
+     * @param thoughtData The thought to record.
+     * @returns The thought's node in the session graph.
+     * @throws {Error} If the thought's references are inconsistent with the graph.
+     */
+    private recordThought(session: ThinkingSession, thoughtData: ThoughtData): ThoughtNode {
+        const node = session.graph.add(thoughtData); // Throws before any state changes if references are invalid
+        session.thoughtHistory.push(thoughtData);
+
+        if (thoughtData.branchId) {
+            session.branches[thoughtData.branchId] ??= [];
+            session.branches[thoughtData.branchId].push(thoughtData);
+        }
+        return node;
+    }
+
+    /**
+     * Marks a branch as abandoned or adopted. Adopting also makes the branch the main line of the session graph.
+     * @param session The session the branch belongs to.
+     * @param branchId The branch to resolve.
+     * @param resolution How and when the branch was resolved.
+     * @returns The main-line nodes an adoption dropped from the main chain.
+     * @throws {Error} If the branch cannot be adopted.
+     */
+    private resolveBranch(session: ThinkingSession, branchId: string, resolution: BranchResolution): ThoughtNode[] {
+        const superseded = resolution.status === 'adopted' ? session.graph.adopt(branchId) : []; // Throws before any state changes
+        session.branchResolutions[branchId] = resolution;
+        return superseded;
+    }
+
+    /**
+     * Describes a node's place in the session's reasoning tree for the client.
+     * @param session The session the node belongs to.
+     * @param node The node to describe.
+     */
+    private describeNode(session: ThinkingSession, node: ThoughtNode): Record<string, unknown> {
+        const reference = (id: number | undefined) => {
+            const target = id === undefined ? undefined : session.graph.getNode(id);
+            return target ? { node_id: target.id, thought_number: target.thought.thoughtNumber, line: target.line } : null;
+        };
+
+        return {
+            node_id: node.id,
+            line: node.line,
+            lineage: session.graph.lineage(node.id),
+            depth: node.depth,
+            parent: node.parentId === null ? null : { ...reference(node.parentId), edge: node.parentEdge },
+            revises: reference(session.graph.outgoing(node.id, 'revision')[0]?.to),
+            merges_into: reference(session.graph.outgoing(node.id, 'merge')[0]?.to)
+        };
+    }
+
+    /**
+     * Validates an optional session id argument.
+     * @param value Raw `sessionId` value from the tool call arguments.
+     * @returns The session id, or `undefined` if none was provided.
+     * @throws {Error} If the value is present but not a valid identifier.
+     */
+    private validateSessionId(value: unknown): string | undefined {
+        if (value === undefined) {
+            return undefined;
+        }
+        if (typeof value !== 'string' || !/^[A-Za-z0-9_.-]{1,64}$/.test(value)) {
+            throw new Error('Invalid input: `sessionId` must be 1-64 characters of letters, digits, `_`, `.` or `-`.');
+        }
+        return value;
+    }
+
+    /**
+     * Looks up a session that is still accepting thoughts.
+     * @param sessionId The session to look up.
+     * @returns The open session.
+     * @throws {Error} If the session does not exist or has been closed.
+     */
+    private getOpenSession(sessionId: string): ThinkingSession {
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`Unknown session: \`${sessionId}\`. Use \`list_thinking_sessions\` to see available sessions.`);
+        }
+        if (session.closedAt) {
+            throw new Error(`Session \`${sessionId}\` is closed and no longer accepts thoughts.`);
+        }
+        return session;
+    }
+
+    /**
+     * Looks up a session for reading. Closed sessions can still be read.
+     * @param sessionId The session to look up, or `undefined` for the active session.
+     * @returns The session.
+     * @throws {Error} If the session does not exist or there is no active session.
+     */
+    private getReadableSession(sessionId: string | undefined): ThinkingSession {
+        const id = sessionId ?? this.activeSessionId;
+        if (id === null) {
+            throw new Error('No active session. Provide `sessionId`.');
+        }
+        const session = this.sessions.get(id);
+        if (!session) {
+            throw new Error(`Unknown session: \`${id}\`. Use \`list_thinking_sessions\` to see available sessions.`);
+        }
+        return session;
+    }
+
+    /**
+     * Validates the optional paging arguments shared by the query tools.
+     * @param data Raw tool call arguments.
+     * @returns The offset (default 0) and limit (default 20, at most 100).
+     * @throws {Error} If either value is not a valid integer in range.
+     */
+    private validatePaging(data: Record<string, unknown>): { offset: number; limit: number } {
+        const offset = data.offset ?? 0;
+        const limit = data.limit ?? 20;
+        if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+            throw new Error('Invalid input: `offset` must be a non-negative integer.');
+        }
+        if (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > 100) {
+            throw new Error('Invalid input: `limit` must be an integer between 1 and 100.');
+        }
+        return { offset, limit };
+    }
+
+    /**
+     * Validates an optional branch id argument.
+     * @param value Raw `branchId` value from the tool call arguments.
+     * @returns The branch id, or `undefined` if none was provided.
+     * @throws {Error} If the value is present but not a non-empty string.
+     */
+    private validateBranchId(value: unknown): string | undefined {
+        if (value !== undefined && (typeof value !== 'string' || !value)) {
+            throw new Error('Invalid input: `branchId` must be a non-empty string.');
+        }
+        return value as string | undefined;
+    }
+
+    /**
+     * Converts a page of thought entries into the snake_case payload returned by the query tools.
+     * @param page The page to serialize.
+     */
+    private serializePage(page: Page<ThoughtEntry>): Record<string, unknown> {
+        return {
+            total: page.total,
+            offset: page.offset,
+            limit: page.limit,
+            next_offset: page.nextOffset,
+            thoughts: page.items.map(({ position, thought }) => ({ position, ...thought })),
+        };
+    }
+
+    /**
+     * Builds an empty session without registering or persisting it.
+     * @param sessionId Optional explicit id; the next free generated id when omitted.
+     * @param title Optional human-readable label.
+     * @param policies Optional session-specific guardrail settings.
+     * @returns The new session, to be passed to `registerSession`.
+     * @throws {Error} If a session with the given id already exists.
+     */
+    private buildSession(sessionId?: string, title?: string, policies?: SessionPolicyOverrides): ThinkingSession {
+        let id = sessionId;
+        if (id === undefined) {
+            let counter = this.sessionCounter;
+            do {
+                id = `session-${++counter}`;
+            } while (this.sessions.has(id));
+        } else if (this.sessions.has(id)) {
+            throw new Error(`Session \`${id}\` already exists.`);
+        }
+
+        return {
+            id,
+            title,
+            createdAt: new Date().toISOString(),
+            policies,
+            thoughtHistory: [],
+            branches: {},
+            branchResolutions: {},
+            graph: new ThoughtGraph(),
+        };
+    }
+
+    /**
+     * Persists a session built by `buildSession`, registers it and, unless told otherwise, makes it the active session.
+     * @param session The session to register.
+     * @param generatedId Whether the session's id was generated, so the next generated id follows it.
+     * @param activate Whether calls without `sessionId` go to the session from now on (Optional, defaults to `true`).
+     * @returns The registered session.
+     */
+    private registerSession(session: ThinkingSession, generatedId: boolean, activate = true): ThinkingSession {
+        this.store.append(session.id, { type: 'session_started', at: session.createdAt, sessionId: session.id, title: session.title, policies: session.policies });
+        this.sessions.set(session.id, session);
+        if (generatedId) {
+            this.sessionCounter = Number(session.id.slice('session-'.length));
+        }
+
+        // Starting a session may push older ones past the store's retention limit.
+        for (const removedId of this.store.enforceRetention(session.id)) {
+            this.sessions.delete(removedId);
+        }
+        if (activate) {
+            this.activeSessionId = session.id;
+        }
+        logger.info(chalk.green(`🧠 Started session: ${session.id}${session.title ? ` (${session.title})` : ''}`), { event: 'session_started', session: session.id });
+        this.notifyChange({ type: 'sessions_changed' });
+        return session;
+    }
+
+    /**
+     * Resolves the session a `better_thinking` call should be recorded in.
+     * Uses the explicit `sessionId` if given, otherwise the active session. If there is no open active
+     * session, a new one is built but not registered, so a rejected first thought leaves nothing behind.
+     * @param sessionId Optional explicit session id from the call.
+     * @returns The session to record the thought in; register it unless `this.sessions` holds it.
+     */
+    private resolveSession(sessionId: string | undefined): ThinkingSession {
+        if (sessionId !== undefined) {
+            return this.getOpenSession(sessionId);
+        }
+        const active = this.activeSessionId ? this.sessions.get(this.activeSessionId) : undefined;
+        return active && !active.closedAt ? active : this.buildSession();
+    }
+
+    /**
+     * Rejects the step if any violation is an error; otherwise logs the warnings.
+     * @param violations The violations reported by the policy engine.
+     * @param context The session (and thought) the violations are about, for the log records.
+     * @returns The warning messages, for inclusion in the response.
+     * @throws {PolicyError} If any violation has severity `error`.
+     */
+    private enforcePolicies(violations: PolicyViolation[], context: LogContext): string[] {
+        if (violations.some(violation => violation.severity === 'error')) {
+            throw new PolicyError(violations);
+        }
+        return violations.map(violation => {
+            logger.warn(chalk.yellow(`Warning: ${violation.message}`), { event: 'policy_warning', ...context, rule: violation.rule });
+            return `${violation.rule}: ${violation.message}`;
+        });
+    }
+
+    /**
+     * Reports a change to every listener. A failing listener is logged and never fails the tool call.
+     * @param change The change that happened.
+     */
+    private notifyChange(change: SessionChange): void {
+        for (const listener of this.changeListeners) {
+            try {
+                listener(change);
+            } catch (error) {
+                logger.warn(chalk.yellow(`Warning: Session change listener failed: ${error instanceof Error ? error.message : String(error)}`), { event: 'change_listener_failed', change: change.type });
+            }
+        }
+    }
+
+    /**
+     * Wraps a payload in a successful tool response.
+     * @param payload The JSON-serializable response payload.
+     * @returns The tool response.
+     */
+    private successResponse(payload: Record<string, unknown>): ToolResponse {
+        return {
+            content: [{
+                type: "text",
+                text: JSON.stringify(payload, null, 2) // Pretty-print JSON response
+            }]
+        };
+    }
+
+    /**
+     * Logs an error and wraps it in a failed tool response.
+     * @param error The caught error.
+     * @param action Short description of what was being attempted, used in the log line.
+     * @returns The tool response with `isError` set.
+     */
+    private errorResponse(error: unknown, action: string): ToolResponse {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(chalk.red(`❌ Error ${action}: ${errorMessage}`), { event: 'tool_failed', action });
+
+        const errorPayload = {
+            status: 'failed',
+            error: errorMessage,
+            // Policy rejections list every violated rule, including warnings
+            ...(error instanceof PolicyError ? { policy_violations: error.violations } : {})
+        };
+
+        return {
+            content: [{
+                type: "text",
+                text: JSON.stringify(errorPayload, null, 2)
+            }],
+            isError: true
+        };
+    }
 
     /**
      * Validates the raw input object against the expected ThoughtData structure.
@@ -118,23 +589,96 @@ export class BetterThinkingToolLogic {
             });
         }
 
+        // Thought references must be well-formed here; whether they point at real thoughts is checked by the session graph.
+        const optionalThoughtReference = (field: 'revisesThought' | 'branchFromThought' | 'mergeIntoThought'): number | undefined => {
+            const value = data[field];
+            if (value === undefined) {
+                return undefined;
+            }
+            if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+                throw new Error(`Invalid input: \`${field}\` must be a positive integer.`);
+            }
+            return value;
+        };
+
         const isRevision = typeof data.isRevision === 'boolean' ? data.isRevision : undefined;
-        const revisesThought = typeof data.revisesThought === 'number' && Number.isInteger(data.revisesThought) && data.revisesThought >= 1 ? data.revisesThought : undefined;
-        const branchFromThought = typeof data.branchFromThought === 'number' && Number.isInteger(data.branchFromThought) && data.branchFromThought >= 1 ? data.branchFromThought : undefined;
-        const branchId = typeof data.branchId === 'string' ? data.branchId : undefined;
-        const needsMoreThoughts = typeof data.needsMoreThoughts === 'boolean' ? data.needsMoreThoughts : undefined; // Deprecated
+        const revisesThought = optionalThoughtReference('revisesThought');
+        const branchFromThought = optionalThoughtReference('branchFromThought');
+        const mergeIntoThought = optionalThoughtReference('mergeIntoThought');
+        const branchId = typeof data.branchId === 'string' && data.branchId ? data.branchId : undefined;
 
-        // --- Warnings for potential inconsistencies ---
-        if (isRevision && revisesThought === undefined) {
-            console.warn(chalk.yellow("Warning: `isRevision` is true but `revisesThought` is missing. Revision context might be unclear."));
+        // --- Validation Checks (Structured Fields) ---
+        const optionalGoal = (field: 'goal' | 'subgoal'): GoalState | undefined => {
+            const value = data[field] as Record<string, unknown> | undefined;
+            if (value === undefined) {
+                return undefined;
+            }
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                throw new Error(`Invalid input: \`${field}\` must be an object with 'description' and 'status'.`);
+            }
+            if (typeof value.description !== 'string' || !value.description.trim()) {
+                throw new Error(`Invalid input: \`${field}.description\` must be a non-empty string.`);
+            }
+            if (!GOAL_STATUSES.includes(value.status as GoalStatus)) {
+                throw new Error(`Invalid input: \`${field}.status\` must be one of ${GOAL_STATUSES.map(status => `'${status}'`).join(', ')}.`);
+            }
+            if (field === 'subgoal' && value.id !== undefined) {
+                if (typeof value.id !== 'string' || !value.id) {
+                    throw new Error('Invalid input: `subgoal.id` must be a non-empty string.');
+                }
+                return { description: value.description, status: value.status as GoalStatus, id: value.id };
+            }
+            return { description: value.description, status: value.status as GoalStatus };
+        };
+        const goal = optionalGoal('goal');
+        const subgoal = optionalGoal('subgoal');
+
+        if (data.method !== undefined && !REASONING_METHODS.includes(data.method as ReasoningMethod)) {
+            throw new Error(`Invalid input: \`method\` must be one of ${REASONING_METHODS.map(method => `'${method}'`).join(', ')}.`);
         }
-        if (branchFromThought && branchId === undefined) {
-            console.warn(chalk.yellow("Warning: `branchFromThought` is set but `branchId` is missing. Branch cannot be tracked properly."));
+        const method = data.method as ReasoningMethod | undefined;
+
+        let alternatives: ConsideredAlternative[] | undefined = undefined;
+        if (data.alternatives !== undefined) {
+            if (!Array.isArray(data.alternatives)) {
+                throw new Error('Invalid input: `alternatives` must be an array.');
+            }
+            alternatives = (data.alternatives as any[]).map((item, index) => {
+                if (typeof item !== 'object' || item === null) {
+                    throw new Error(`Invalid item in alternatives at index ${index}: must be an object.`);
+                }
+                if (typeof item.option !== 'string' || !item.option.trim()) {
+                    throw new Error(`Invalid item in alternatives at index ${index}: missing or invalid 'option' string.`);
+                }
+                if (item.decision !== 'chosen' && item.decision !== 'rejected') {
+                    throw new Error(`Invalid item in alternatives at index ${index}: 'decision' must be 'chosen' or 'rejected'.`);
+                }
+                if (item.reason !== undefined && typeof item.reason !== 'string') {
+                    throw new Error(`Invalid item in alternatives at index ${index}: 'reason' must be a string.`);
+                }
+                return { option: item.option, decision: item.decision, reason: item.reason || undefined };
+            });
+        }
+
+        let concepts: string[] | undefined = undefined;
+        if (data.concepts !== undefined) {
+            if (!Array.isArray(data.concepts) || data.concepts.some(concept => typeof concept !== 'string' || !concept.trim())) {
+                throw new Error('Invalid input: `concepts` must be an array of non-empty strings.');
+            }
+            concepts = data.concepts as string[];
         }
-        if (needsMoreThoughts !== undefined) {
-             console.warn(chalk.yellow("Warning: `needsMoreThoughts` is deprecated. Use `nextThoughtNeeded` for flow control."));
+
+        // Like the other references, evidence is resolved against the session by the graph.
+        let evidence: number[] | undefined = undefined;
+        if (data.evidence !== undefined) {
+            if (!Array.isArray(data.evidence) || data.evidence.some(ref => typeof ref !== 'number' || !Number.isInteger(ref) || ref < 1)) {
+                throw new Error('Invalid input: `evidence` must be an array of positive integer thought numbers.');
+            }
+            evidence = data.evidence as number[];
         }
 
+        // Inconsistencies (e.g. `isRevision` without `revisesThought`, deprecated `needsMoreThoughts`)
+        // are reported by the policy engine, so they reach the client as warnings or errors.
         // --- Return validated data ---
         return {
             thought: data.thought,
@@ -147,139 +691,701 @@ export class BetterThinkingToolLogic {
             revisesThought,
             branchFromThought,
             branchId,
+            mergeIntoThought,
+            goal,
+            subgoal,
+            method,
+            alternatives,
+            concepts,
+            evidence,
             // needsMoreThoughts is intentionally omitted from the returned object
             // as it's deprecated and its logic is handled by nextThoughtNeeded
         };
     }
 
     /**
-     * Formats a ThoughtData object into a human-readable string with borders and colors for console display.
-     * @param thoughtData The validated thought data to format.
-     * @returns A formatted string representation of the thought.
+     * Processes a single thought step.
+     * Validates the input, updates the session's history/branches, formats the thought for logging,
+     * and returns a structured response for the MCP client.
+     * @param input Raw input object from the tool call arguments.
+     * @returns An object containing the response content (JSON string) and an optional error flag.
+     */
+    public processThought(input: unknown): ToolResponse {
+        try {
+            // 1. Validate the input data and resolve the target session
+            const data = (input ?? {}) as Record<string, unknown>;
+            const validatedInput = this.validateThoughtData(data);
+            const { sessionId, includeAnalysis } = data;
+            if (includeAnalysis !== undefined && typeof includeAnalysis !== 'boolean') {
+                throw new Error('Invalid input: `includeAnalysis` must be a boolean.');
+            }
+            const session = this.resolveSession(this.validateSessionId(sessionId));
+
+            // 2. Adjust totalThoughts if thoughtNumber exceeds it (flexible total)
+            const warnings: string[] = [];
+            if (validatedInput.thoughtNumber > validatedInput.totalThoughts) {
+                const message = `thoughtNumber (${validatedInput.thoughtNumber}) exceeds totalThoughts (${validatedInput.totalThoughts}). Adjusting totalThoughts.`;
+                logger.warn(chalk.yellow(`Warning: ${message}`), { event: 'total_thoughts_adjusted', session: session.id, thought: validatedInput.thoughtNumber });
+                warnings.push(message);
+                validatedInput.totalThoughts = validatedInput.thoughtNumber; // Auto-adjust total
+            }
+
+            // 3. Check the thought's references against the session graph, its declared goals and the configured policies,
+            //    persist it, then add it to the session's graph, history and branches
+            const parent = session.graph.validate(validatedInput);
+            checkBranchAcceptsThoughts(session, validatedInput);
+            if (validatedInput.subgoal) {
+                checkSubgoalReference(session.goals, validatedInput.subgoal);
+            }
+            const violations = this.policies.checkThought(session, validatedInput, data, parent?.thought);
+            warnings.push(...this.enforcePolicies(violations, { session: session.id, thought: validatedInput.thoughtNumber }));
+            if (!this.sessions.has(session.id)) {
+                this.registerSession(session, true); // A new session is only kept once its first thought is accepted
+            }
+            this.store.append(session.id, { type: 'thought', at: new Date().toISOString(), thought: validatedInput });
+            const node = this.recordThought(session, validatedInput);
+            if (node.parentEdge === 'branch') {
+                logger.info(chalk.green(`🌱 Starting new branch: ${validatedInput.branchId} from thought ${validatedInput.branchFromThought}`), { event: 'branch_started', session: session.id, thought: validatedInput.thoughtNumber, branch: validatedInput.branchId });
+            }
+            this.notifyChange({ type: 'thought_recorded', session, node });
+
+            // 4. Render the thought to the server console, unless rendering is switched off.
+            //    Boxes are meant for terminals, so NDJSON records carry the full one-line form instead.
+            const render = this.options.render ?? 'box';
+            if (render !== 'off') {
+                const rendered = logger.getFormat() === 'json' ? renderThought(validatedInput, 'compact', Infinity) : renderThought(validatedInput, render);
+                logger.info(rendered, { // The logger writes to stderr, away from MCP stdout communication
+                    event: 'thought_recorded',
+                    session: session.id,
+                    thought: validatedInput.thoughtNumber,
+                    total_thoughts: validatedInput.totalThoughts,
+                    line: node.line,
+                    node_id: node.id,
+                    confidence: validatedInput.confidence_score ?? null,
+                });
+            }
+
+            // 5. Prepare successful response for the client
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                thought_number_processed: validatedInput.thoughtNumber,
+                current_total_thoughts: validatedInput.totalThoughts,
+                next_thought_needed: validatedInput.nextThoughtNeeded,
+                active_branches: openBranches(session),
+                total_history_length: session.thoughtHistory.length,
+                graph: this.describeNode(session, node),
+                goal_progress: session.goals ? goalProgress(session.goals, session.thoughtHistory, session.branchResolutions) : null,
+                warnings,
+                ...(includeAnalysis ? { analysis: analyzeSession(session) } : {})
+            });
+
+        } catch (error) {
+            // 6. Handle errors during validation or processing
+            return this.errorResponse(error, 'processing thought');
+        }
+    }
+
+    /**
+     * Starts a new session and makes it the active one.
+     * @param input Raw arguments: optional `sessionId`, `title` and `policies` (session-specific guardrail settings).
+     * @param options `activate: false` starts the session without making it active, e.g. for a prompt that names it (Optional).
+     * @returns The created session's details, or an error response.
      */
-    private formatThought(thoughtData: ThoughtData): string {
-        const { thoughtNumber, totalThoughts, thought, confidence_score, knowledge_assessment, isRevision, revisesThought, branchFromThought, branchId } = thoughtData;
+    public startSession(input: unknown, options: { activate?: boolean } = {}): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const sessionId = this.validateSessionId(data.sessionId);
+            if (data.title !== undefined && typeof data.title !== 'string') {
+                throw new Error('Invalid input: `title` must be a string.');
+            }
+            const policies = data.policies === undefined ? undefined : parsePolicyRules(data.policies);
 
-        // Determine prefix and context based on thought type (normal, revision, branch)
-        let prefix = chalk.blue('💭 Thought');
-        let context = '';
-        if (isRevision && revisesThought) {
-            prefix = chalk.yellow('🔄 Revision');
-            context = ` (revising thought ${revisesThought})`;
-        } else if (branchFromThought && branchId) {
-            prefix = chalk.green('🌿 Branch');
-            context = ` (from thought ${branchFromThought}, ID: ${branchId})`;
+            const activate = options.activate ?? true;
+            const session = this.registerSession(this.buildSession(sessionId, data.title as string | undefined, policies), sessionId === undefined, activate);
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                title: session.title ?? null,
+                created_at: session.createdAt,
+                active: activate,
+                policies: session.policies ?? {}
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'starting session');
         }
+    }
 
-        const header = `${prefix} ${thoughtNumber}/${totalThoughts}${context}`;
+    /**
+     * Lists known sessions with their per-session counters.
+     * @param input Raw arguments: optional `includeClosed` (defaults to `true`).
+     * @returns The session summaries, or an error response.
+     */
+    public listSessions(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            if (data.includeClosed !== undefined && typeof data.includeClosed !== 'boolean') {
+                throw new Error('Invalid input: `includeClosed` must be a boolean.');
+            }
+            const includeClosed = data.includeClosed ?? true;
 
-        // Format optional lines
-        const confidenceLine = confidence_score !== undefined
-            ? `Confidence: ${chalk.cyan(confidence_score.toFixed(2))}`
-            : '';
-        const knowledgeLines = knowledge_assessment?.length
-            ? 'Knowledge Assessment:\n' + knowledge_assessment.map(ka => `  - ${chalk.yellow(ka.entity)}: ${chalk.magenta(ka.status)}`).join('\n')
-            : '';
+            const sessions = [...this.sessions.values()]
+                .filter(session => includeClosed || !session.closedAt)
+                .map(session => ({
+                    session_id: session.id,
+                    title: session.title ?? null,
+                    status: session.closedAt ? 'closed' : 'open',
+                    active: session.id === this.activeSessionId,
+                    created_at: session.createdAt,
+                    closed_at: session.closedAt ?? null,
+                    total_history_length: session.thoughtHistory.length,
+                    branches: Object.keys(session.branches),
+                    policies: session.policies ?? {}
+                }));
 
-        // Combine core content lines, filtering out empty ones
-        const coreContentLines = [thought, confidenceLine, knowledgeLines].filter(Boolean);
+            return this.successResponse({
+                status: 'success',
+                active_session_id: this.activeSessionId,
+                sessions
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'listing sessions');
+        }
+    }
+
+    /**
+     * Makes an existing open session the active one.
+     * @param input Raw arguments: required `sessionId`.
+     * @returns The newly active session's details, or an error response.
+     */
+    public switchSession(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const sessionId = this.validateSessionId(data.sessionId);
+            if (sessionId === undefined) {
+                throw new Error('Invalid input: `sessionId` is required.');
+            }
+
+            const session = this.getOpenSession(sessionId);
+            this.activeSessionId = session.id;
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                title: session.title ?? null,
+                total_history_length: session.thoughtHistory.length,
+                active_branches: openBranches(session)
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'switching session');
+        }
+    }
 
-        // Calculate max width for border, considering multi-line content
-        const allLinesForWidth = [header, ...coreContentLines.flatMap(line => line.split('\n'))];
-        const maxWidth = Math.max(0, ...allLinesForWidth.map(l => stripAnsi(l).length)); // Ensure maxWidth >= 0
-        const border = '─'.repeat(maxWidth + 2); // Top/bottom border
-        const separator = `├${'·'.repeat(maxWidth + 2)}┤`; // Separator between sections
+    /**
+     * Closes a session so it no longer accepts thoughts. Its history is kept.
+     * @param input Raw arguments: optional `sessionId` (defaults to the active session).
+     * @returns The closed session's final counters, or an error response.
+     */
+    public closeSession(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const sessionId = this.validateSessionId(data.sessionId) ?? this.activeSessionId;
+            if (sessionId === null) {
+                throw new Error('No active session to close. Provide `sessionId`.');
+            }
 
-        // Build the formatted string with borders
-        let formatted = `\n┌${border}┐\n│ ${header.padEnd(maxWidth)} │`; // Top border and header
+            const session = this.getOpenSession(sessionId);
+            const warnings = this.enforcePolicies(this.policies.checkClose(session), { session: session.id });
+            const closedAt = new Date().toISOString();
+            this.store.append(session.id, { type: 'session_closed', at: closedAt });
+            session.closedAt = closedAt;
+            if (this.activeSessionId === session.id) {
+                this.activeSessionId = null;
+            }
+            logger.info(chalk.green(`🏁 Closed session: ${session.id}`), { event: 'session_closed', session: session.id });
+            this.notifyChange({ type: 'session_updated', session });
+            this.notifyChange({ type: 'sessions_changed' });
 
-        if (coreContentLines.length > 0) {
-             formatted += `\n├${border}┤`; // Separator before main content
-             coreContentLines.forEach((line, index) => {
-                // Add separator between optional sections (confidence, knowledge)
-                if (index > 0 && line !== '' && coreContentLines[index-1] !== '') {
-                    formatted += `\n${separator}`;
-                }
-                // Add each line (or sub-line if it contains newlines) padded within borders
-                line.split('\n').forEach(subLine => {
-                    formatted += `\n│ ${subLine.padEnd(maxWidth)} │`;
-                });
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                closed_at: session.closedAt,
+                total_history_length: session.thoughtHistory.length,
+                branches: Object.keys(session.branches),
+                warnings
             });
+        } catch (error) {
+            return this.errorResponse(error, 'closing session');
         }
+    }
 
-        formatted += `\n└${border}┘`; // Bottom border
-        return formatted;
+    /**
+     * Declares the session's top-level goal and sub-goals. Repeated calls add sub-goals
+     * and may restate the goal; declared sub-goals cannot be removed.
+     * @param input Raw arguments: `goal` (required the first time), `subgoals`, optional `sessionId`.
+     * @returns The declared goals with the current progress, or an error response.
+     */
+    public declareGoals(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.resolveSession(this.validateSessionId(data.sessionId));
+            const goals = declareGoals(session.goals, data);
+
+            if (!this.sessions.has(session.id)) {
+                this.registerSession(session, true); // Like a first thought, valid goals start the new session
+            }
+            this.store.append(session.id, { type: 'goals_declared', at: new Date().toISOString(), goal: goals.goal, subgoals: goals.subgoals });
+            session.goals = goals;
+            logger.info(chalk.green(`🎯 Goals for session ${session.id}: ${goals.goal} (${goals.subgoals.length} sub-goals)`), { event: 'goals_declared', session: session.id });
+            this.notifyChange({ type: 'session_updated', session });
+
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                goal_progress: goalProgress(goals, session.thoughtHistory, session.branchResolutions)
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'declaring goals');
+        }
     }
 
     /**
-     * Processes a single thought step.
-     * Validates the input, updates history/branches, formats the thought for logging,
-     * and returns a structured response for the MCP client.
-     * @param input Raw input object from the tool call arguments.
-     * @returns An object containing the response content (JSON string) and an optional error flag.
+     * Marks a branch as abandoned, so it is no longer listed as active and accepts no further thoughts.
+     * @param input Raw arguments: `branchId`, `reason`, optional `sessionId` (defaults to the active session).
+     * @returns The remaining active branches, or an error response.
      */
-    public processThought(input: unknown): { content: Array<{ type: string; text: string }>; isError?: boolean } {
+    public abandonBranch(input: unknown): ToolResponse {
         try {
-            // 1. Validate the input data
-            const validatedInput = this.validateThoughtData(input);
+            const data = (input ?? {}) as Record<string, unknown>;
+            const sessionId = this.validateSessionId(data.sessionId) ?? this.activeSessionId;
+            if (sessionId === null) {
+                throw new Error('No active session. Provide `sessionId`.');
+            }
+            const session = this.getOpenSession(sessionId);
+            const branchId = this.validateBranchId(data.branchId);
+            if (branchId === undefined) {
+                throw new Error('Invalid input: `branchId` is required.');
+            }
+            if (typeof data.reason !== 'string' || !data.reason.trim()) {
+                throw new Error('Invalid input: `reason` is required and must be a non-empty string.');
+            }
+            checkBranchResolvable(session, branchId);
 
-            // 2. Adjust totalThoughts if thoughtNumber exceeds it (flexible total)
-            if (validatedInput.thoughtNumber > validatedInput.totalThoughts) {
-                console.warn(chalk.yellow(`Warning: thoughtNumber (${validatedInput.thoughtNumber}) exceeds totalThoughts (${validatedInput.totalThoughts}). Adjusting totalThoughts.`));
-                validatedInput.totalThoughts = validatedInput.thoughtNumber; // Auto-adjust total
+            const at = new Date().toISOString();
+            this.store.append(session.id, { type: 'branch_abandoned', at, branchId, reason: data.reason });
+            this.resolveBranch(session, branchId, { status: 'abandoned', at, reason: data.reason, position: session.thoughtHistory.length });
+            logger.info(chalk.yellow(`🍂 Abandoned branch ${branchId} in session ${session.id}: ${data.reason}`), { event: 'branch_abandoned', session: session.id, branch: branchId });
+            this.notifyChange({ type: 'branch_resolved', session, branchId });
+
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                branch_id: branchId,
+                branch_status: 'abandoned',
+                reason: data.reason,
+                active_branches: openBranches(session)
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'abandoning branch');
+        }
+    }
+
+    /**
+     * Adopts a branch as the main line: the next thought without `branchId` continues from the branch's
+     * last thought, and main-line thoughts after the fork point drop out of the effective chain.
+     * @param input Raw arguments: `branchId`, optional `reason` and `sessionId` (defaults to the active session).
+     * @returns The new main-line tip and the superseded main-line thoughts, or an error response.
+     */
+    public adoptBranch(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const sessionId = this.validateSessionId(data.sessionId) ?? this.activeSessionId;
+            if (sessionId === null) {
+                throw new Error('No active session. Provide `sessionId`.');
+            }
+            const session = this.getOpenSession(sessionId);
+            const branchId = this.validateBranchId(data.branchId);
+            if (branchId === undefined) {
+                throw new Error('Invalid input: `branchId` is required.');
+            }
+            if (data.reason !== undefined && typeof data.reason !== 'string') {
+                throw new Error('Invalid input: `reason` must be a string.');
+            }
+            checkBranchResolvable(session, branchId);
+
+            session.graph.validateAdoption(branchId);
+            const at = new Date().toISOString();
+            const reason = data.reason as string | undefined;
+            this.store.append(session.id, { type: 'branch_adopted', at, branchId, reason });
+            const superseded = this.resolveBranch(session, branchId, { status: 'adopted', at, reason, position: session.thoughtHistory.length });
+            logger.info(chalk.green(`🌳 Adopted branch ${branchId} as the main line of session ${session.id}`), { event: 'branch_adopted', session: session.id, branch: branchId });
+            this.notifyChange({ type: 'branch_resolved', session, branchId });
+
+            const tip = session.graph.getNode(session.graph.getLineTip(MAIN_LINE)!)!;
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                branch_id: branchId,
+                branch_status: 'adopted',
+                main_line_tip: { node_id: tip.id, thought_number: tip.thought.thoughtNumber },
+                superseded_main_thoughts: superseded.map(node => ({ position: node.id, thought_number: node.thought.thoughtNumber })),
+                active_branches: openBranches(session)
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'adopting branch');
+        }
+    }
+
+    /**
+     * Compares two lines of a session side by side: thought counts, final confidence,
+     * unresolved knowledge entities and last conclusion.
+     * @param input Raw arguments: `branchA`, `branchB` (either may be `"main"`), optional `sessionId`.
+     * @returns A summary of each line, or an error response.
+     */
+    public compareBranches(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.getReadableSession(this.validateSessionId(data.sessionId));
+            const branchA = this.validateBranchId(data.branchA);
+            const branchB = this.validateBranchId(data.branchB);
+            if (branchA === undefined || branchB === undefined) {
+                throw new Error('Invalid input: `branchA` and `branchB` are required.');
+            }
+            if (branchA === branchB) {
+                throw new Error('Invalid input: `branchA` and `branchB` must be different lines.');
+            }
+
+            const [a, b] = [summarizeBranch(session, branchA), summarizeBranch(session, branchB)];
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                branches: [a, b],
+                confidence_difference: a.final_confidence !== null && b.final_confidence !== null
+                    ? Math.round((a.final_confidence - b.final_confidence) * 1000) / 1000
+                    : null
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'comparing branches');
+        }
+    }
+
+    /**
+     * Returns the thoughts recorded with a given number (several if branches reuse it).
+     * @param input Raw arguments: `thoughtNumber`, optional `sessionId`, `branchId` (use `"main"` for the main line) and paging.
+     * @returns A page of matching thoughts, or an error response.
+     */
+    public getThought(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.getReadableSession(this.validateSessionId(data.sessionId));
+            if (typeof data.thoughtNumber !== 'number' || !Number.isInteger(data.thoughtNumber) || data.thoughtNumber < 1) {
+                throw new Error('Invalid input: `thoughtNumber` is required and must be a positive integer.');
+            }
+            const branchId = this.validateBranchId(data.branchId);
+            const { offset, limit } = this.validatePaging(data);
+
+            const matches = findThoughts(session, data.thoughtNumber, branchId === MAIN_LINE ? null : branchId);
+            if (matches.length === 0) {
+                throw new Error(`Thought ${data.thoughtNumber} not found in session \`${session.id}\`${branchId ? ` (branch \`${branchId}\`)` : ''}.`);
+            }
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                ...this.serializePage(paginate(matches, offset, limit))
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'getting thought');
+        }
+    }
+
+    /**
+     * Lists the thoughts recorded on a branch.
+     * @param input Raw arguments: `branchId`, optional `sessionId` and paging.
+     * @returns A page of the branch's thoughts, or an error response.
+     */
+    public listBranchThoughts(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.getReadableSession(this.validateSessionId(data.sessionId));
+            const branchId = this.validateBranchId(data.branchId);
+            if (branchId === undefined) {
+                throw new Error('Invalid input: `branchId` is required.');
+            }
+            const { offset, limit } = this.validatePaging(data);
+
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                branch_id: branchId,
+                ...this.serializePage(paginate(branchThoughts(session, branchId), offset, limit))
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'listing branch thoughts');
+        }
+    }
+
+    /**
+     * Returns the effective reasoning chain with revisions applied, plus which thoughts were revised.
+     * @param input Raw arguments: optional `sessionId`, `branchId` and paging.
+     * @returns A page of the effective chain, or an error response.
+     */
+    public getEffectiveChain(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.getReadableSession(this.validateSessionId(data.sessionId));
+            const branchId = this.validateBranchId(data.branchId);
+            const { offset, limit } = this.validatePaging(data);
+
+            const { chain, superseded } = effectiveChain(session, branchId);
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                branch_id: branchId ?? null,
+                superseded: superseded.map(({ thoughtNumber, revisedBy }) => ({ thought_number: thoughtNumber, revised_by: revisedBy })),
+                ...this.serializePage(paginate(chain, offset, limit))
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'building effective chain');
+        }
+    }
+
+    /**
+     * Searches thought text and knowledge entities for a query string.
+     * @param input Raw arguments: `query`, optional `sessionId` and paging.
+     * @returns A page of matching thoughts, or an error response.
+     */
+    public searchThoughts(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.getReadableSession(this.validateSessionId(data.sessionId));
+            if (typeof data.query !== 'string' || !data.query.trim()) {
+                throw new Error('Invalid input: `query` is required and must be a non-empty string.');
             }
+            const { offset, limit } = this.validatePaging(data);
 
-            // 3. Add to main history
-            this.thoughtHistory.push(validatedInput);
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                query: data.query,
+                ...this.serializePage(paginate(searchThoughts(session, data.query), offset, limit))
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'searching thoughts');
+        }
+    }
+
+    /**
+     * Registers a listener for session changes, e.g. to notify MCP clients about updated resources.
+     * @param listener Called synchronously after each change.
+     * @returns A function that removes the listener.
+     */
+    public onChange(listener: (change: SessionChange) => void): () => void {
+        this.changeListeners.add(listener);
+        return () => this.changeListeners.delete(listener);
+    }
 
-            // 4. Handle branching logic
-            if (validatedInput.branchFromThought && validatedInput.branchId) {
-                if (!this.branches[validatedInput.branchId]) {
-                    this.branches[validatedInput.branchId] = [];
-                    console.error(chalk.green(`🌱 Starting new branch: ${validatedInput.branchId} from thought ${validatedInput.branchFromThought}`));
+    /**
+     * Returns every known session, in creation order, for read-only use outside the tool handlers.
+     */
+    public getSessions(): ThinkingSession[] {
+        return [...this.sessions.values()];
+    }
+
+    /**
+     * Returns a session by id for read-only use outside the tool handlers (e.g. CLI commands).
+     * @param sessionId The session to look up.
+     * @returns The session, or `undefined` if it does not exist.
+     */
+    public getSession(sessionId: string): ThinkingSession | undefined {
+        return this.sessions.get(sessionId);
+    }
+
+    /**
+     * Analyzes the quality of a session's reasoning: confidence trend and sharp drops, unresolved
+     * knowledge, confidence-lowering revisions, abandoned branches, estimate drift and premature conclusions.
+     * @param input Raw arguments: optional `sessionId`.
+     * @returns The analysis, or an error response.
+     */
+    public analyzeSession(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.getReadableSession(this.validateSessionId(data.sessionId));
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                total_history_length: session.thoughtHistory.length,
+                ...analyzeSession(session)
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'analyzing session');
+        }
+    }
+
+    /**
+     * Summarizes a session deterministically within a character budget: its effective chain, key
+     * conclusions, final confidence per branch, knowledge status per entity and goal progress.
+     * With `checkpoint`, the summary is stored so that a client can drop the summarized thoughts from
+     * its context; `sinceCheckpoint` then summarizes only the thoughts recorded after it.
+     * @param input Raw arguments: optional `sessionId`, `maxCharacters`, `maxTokens`, `checkpoint` and `sinceCheckpoint`.
+     * @returns The summary, or an error response.
+     */
+    public summarizeSession(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.getReadableSession(this.validateSessionId(data.sessionId));
+            const budgets: number[] = [];
+            if (data.maxCharacters !== undefined) {
+                if (typeof data.maxCharacters !== 'number' || !Number.isInteger(data.maxCharacters) || data.maxCharacters < MIN_SUMMARY_CHARACTERS) {
+                    throw new Error(`Invalid input: \`maxCharacters\` must be an integer of at least ${MIN_SUMMARY_CHARACTERS}.`);
                 }
-                this.branches[validatedInput.branchId].push(validatedInput);
+                budgets.push(data.maxCharacters);
+            }
+            if (data.maxTokens !== undefined) {
+                if (typeof data.maxTokens !== 'number' || !Number.isInteger(data.maxTokens) || data.maxTokens * CHARACTERS_PER_TOKEN < MIN_SUMMARY_CHARACTERS) {
+                    throw new Error(`Invalid input: \`maxTokens\` must be an integer of at least ${MIN_SUMMARY_CHARACTERS / CHARACTERS_PER_TOKEN}.`);
+                }
+                budgets.push(data.maxTokens * CHARACTERS_PER_TOKEN);
+            }
+            if (data.checkpoint !== undefined && typeof data.checkpoint !== 'boolean') {
+                throw new Error('Invalid input: `checkpoint` must be a boolean.');
+            }
+            if (data.sinceCheckpoint !== undefined && typeof data.sinceCheckpoint !== 'boolean') {
+                throw new Error('Invalid input: `sinceCheckpoint` must be a boolean.');
+            }
+            if (data.checkpoint && data.sinceCheckpoint) {
+                throw new Error('Invalid input: `checkpoint` cannot be combined with `sinceCheckpoint`; a checkpoint always summarizes the whole session.');
+            }
+            if (data.sinceCheckpoint && !session.checkpoint) {
+                throw new Error(`Session \`${session.id}\` has no checkpoint yet. Call with \`checkpoint: true\` first.`);
             }
 
-            // 5. Format and log the thought to the server console
-            const formattedThought = this.formatThought(validatedInput);
-            console.error(formattedThought); // Log to stderr to separate from MCP stdout communication
+            const maxCharacters = budgets.length > 0 ? Math.min(...budgets) : DEFAULT_SUMMARY_CHARACTERS;
+            const summary = summarizeSession(session, maxCharacters, data.sinceCheckpoint ? session.checkpoint!.position : undefined);
+            if (data.checkpoint) {
+                const checkpoint: SummaryCheckpoint = { at: new Date().toISOString(), position: session.thoughtHistory.length, summary };
+                this.store.append(session.id, { type: 'summary_checkpoint', ...checkpoint });
+                session.checkpoint = checkpoint;
+                logger.info(chalk.gray(`📌 Checkpoint of session ${session.id} after ${checkpoint.position} thought(s)`), { event: 'summary_checkpoint', session: session.id, position: checkpoint.position });
+                this.notifyChange({ type: 'session_updated', session });
+            }
+            return this.successResponse({
+                status: 'success',
+                ...summary,
+                checkpoint: session.checkpoint ? { position: session.checkpoint.position, created_at: session.checkpoint.at } : null
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'summarizing session');
+        }
+    }
 
-            // 6. Prepare successful response for the client
-            const responsePayload = {
+    /**
+     * Renders a session as Mermaid, Graphviz DOT, Markdown or re-importable JSON.
+     * @param input Raw arguments: `format`, optional `sessionId`.
+     * @returns The rendered document, or an error response.
+     */
+    public exportSession(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const session = this.getReadableSession(this.validateSessionId(data.sessionId));
+            if (!EXPORT_FORMATS.includes(data.format as ExportFormat)) {
+                throw new Error(`Invalid input: \`format\` must be one of ${EXPORT_FORMATS.map(f => `'${f}'`).join(', ')}.`);
+            }
+
+            return this.successResponse({
                 status: 'success',
-                thought_number_processed: validatedInput.thoughtNumber,
-                current_total_thoughts: validatedInput.totalThoughts,
-                next_thought_needed: validatedInput.nextThoughtNeeded,
-                active_branches: Object.keys(this.branches),
-                total_history_length: this.thoughtHistory.length
-            };
+                session_id: session.id,
+                format: data.format,
+                document: renderSession(session, data.format as ExportFormat)
+            });
+        } catch (error) {
+            return this.errorResponse(error, 'exporting session');
+        }
+    }
+
+    /**
+     * Re-imports a JSON session export as a new session. Every thought is re-validated and
+     * replayed through a fresh graph before anything is stored, so a bad export changes nothing.
+     * The active session is left unchanged.
+     * @param input Raw arguments: `document` (export object or JSON string), optional `sessionId` to import under.
+     * @returns The imported session's details, or an error response.
+     */
+    public importSession(input: unknown): ToolResponse {
+        try {
+            const data = (input ?? {}) as Record<string, unknown>;
+            const document = parseSessionExport(data.document);
+            const sessionId = this.validateSessionId(data.sessionId ?? document.session.id)!;
+            if (this.sessions.has(sessionId)) {
+                throw new Error(`Session \`${sessionId}\` already exists. Provide a different \`sessionId\` to import under.`);
+            }
+
+            // Branch resolutions are replayed between the thoughts they were made after, and checked against them
+            // like live calls: a branch must exist when it is resolved and accepts no thoughts afterwards.
+            const resolutions = Object.entries(document.session.branchResolutions ?? {});
+            const resolved: Record<string, BranchResolution> = {};
+            const graph = new ThoughtGraph();
+            const createdAt = document.session.createdAt ?? new Date().toISOString();
+            const { goals } = document.session;
+            const events: SessionEvent[] = [
+                { type: 'session_started', at: createdAt, sessionId, title: document.session.title, policies: document.session.policies },
+                ...(goals ? [{ type: 'goals_declared', at: createdAt, goal: goals.goal, subgoals: goals.subgoals } as SessionEvent] : []),
+            ];
+            for (let position = 0; position <= document.thoughts.length; position++) {
+                for (const [branchId, resolution] of resolutions.filter(([, resolution]) => resolution.position === position)) {
+                    const { status, at, reason } = resolution;
+                    if (!graph.getBranchOrigin(branchId)) {
+                        throw new Error(`Invalid branch resolution for \`${branchId}\` in the export: the branch has no thoughts before position ${position}.`);
+                    }
+                    resolved[branchId] = resolution;
+                    if (status === 'adopted') {
+                        try {
+                            graph.adopt(branchId);
+                        } catch (error) {
+                            throw new Error(`Invalid branch resolution for \`${branchId}\` in the export: ${error instanceof Error ? error.message : String(error)}`);
+                        }
+                    }
+                    events.push(status === 'adopted'
+                        ? { type: 'branch_adopted', at, branchId, reason }
+                        : { type: 'branch_abandoned', at, branchId, reason: reason! });
+                }
+                if (position === document.thoughts.length) {
+                    break;
+                }
+                try {
+                    const thought = this.validateThoughtData(document.thoughts[position]);
+                    checkBranchAcceptsThoughts({ branchResolutions: resolved }, thought);
+                    graph.add(thought);
+                    events.push({ type: 'thought', at: createdAt, thought });
+                } catch (error) {
+                    const reason = error instanceof Error ? error.message : String(error);
+                    throw new Error(`Invalid thought at index ${position} of the export: ${reason}`);
+                }
+            }
+            if (document.session.closedAt) {
+                events.push({ type: 'session_closed', at: document.session.closedAt });
+            }
+            events.forEach(event => this.store.append(sessionId, event));
+            this.restoreSession(sessionId, events);
 
-            return {
-                content: [{
-                    type: "text",
-                    text: JSON.stringify(responsePayload, null, 2) // Pretty-print JSON response
-                }]
-            };
+            // Like starting one, importing a session may push older ones past the store's retention limit.
+            for (const removedId of this.store.enforceRetention(sessionId)) {
+                this.sessions.delete(removedId);
+                if (this.activeSessionId === removedId) {
+                    this.activeSessionId = null;
+                }
+            }
+            logger.info(chalk.green(`📥 Imported session: ${sessionId} (${document.thoughts.length} thoughts)`), { event: 'session_imported', session: sessionId });
+            this.notifyChange({ type: 'sessions_changed' });
 
+            const session = this.sessions.get(sessionId)!;
+            return this.successResponse({
+                status: 'success',
+                session_id: session.id,
+                title: session.title ?? null,
+                status_after_import: session.closedAt ? 'closed' : 'open',
+                total_history_length: session.thoughtHistory.length,
+                branches: Object.keys(session.branches)
+            });
         } catch (error) {
-            // 7. Handle errors during validation or processing
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error(chalk.red(`❌ Error processing thought: ${errorMessage}`));
-
-            // 8. Prepare error response for the client
-            const errorPayload = {
-                status: 'failed',
-                error: errorMessage
-            };
-
-            return {
-                content: [{
-                    type: "text",
-                    text: JSON.stringify(errorPayload, null, 2)
-                }],
-                isError: true
-            };
-        }
-    }
-}
\ No newline at end of file
+            return this.errorResponse(error, 'importing session');
+        }
+    }
+}
@@ -0,0 +1,159 @@
+import { ThinkingSession, ThoughtData } from './better-thinking-tool.js';
+import { effectiveChain } from './history-queries.js';
+import { SessionAnalysis, unresolvedEntities } from './session-analysis.js';
+import { MAIN_LINE } from './thought-graph.js';
+
+// --- Interfaces ---
+
+/**
+ * Where a branch stands:
+ * - `open`: still being explored.
+ * - `merged`: its latest thought merges into another line (adding a thought reopens it).
+ * - `abandoned`: explicitly given up, with a reason.
+ * - `adopted`: made the main line.
+ */
+export type BranchStatus = 'open' | 'merged' | 'abandoned' | 'adopted';
+
+/**
+ * Records that a branch was abandoned or adopted. Resolved branches accept no further thoughts.
+ */
+export interface BranchResolution {
+    status: 'abandoned' | 'adopted';
+    /** ISO timestamp of the resolution. */
+    at: string;
+    /** Why the branch was resolved (required when abandoning). */
+    reason?: string;
+    /** Number of thoughts in the session history when the branch was resolved. */
+    position: number;
+}
+
+/**
+ * One side of a branch comparison. Field names match the tool response payload.
+ */
+export interface BranchSummary {
+    branch_id: string;
+    status: BranchStatus | 'main';
+    reason: string | null;
+    forks_from: { node_id: number; thought_number: number } | null;
+    /** Thoughts recorded on the line itself. */
+    thought_count: number;
+    /** The latest `confidence_score` on the line's effective chain. */
+    final_confidence: number | null;
+    /** Entities still `unknown`/`uncertain` on the line's effective chain, including the shared part before the fork. */
+    unresolved_entities: SessionAnalysis['unresolved_entities'];
+    /** The last thought of the line's effective chain. */
+    last_conclusion: { position: number; thought_number: number; thought: string; next_thought_needed: boolean } | null;
+}
+
+// --- Status ---
+
+/**
+ * Determines a branch's status from its resolution and its latest thought.
+ * @param session The session the branch belongs to.
+ * @param branchId The branch to check.
+ */
+export function branchStatus(session: ThinkingSession, branchId: string): BranchStatus {
+    const resolution = session.branchResolutions[branchId];
+    if (resolution) {
+        return resolution.status;
+    }
+    const tip = session.graph.getLineTip(branchId);
+    return tip !== undefined && session.graph.outgoing(tip, 'merge').length > 0 ? 'merged' : 'open';
+}
+
+/**
+ * Lists the branches that are still being explored, i.e. neither merged, abandoned nor adopted.
+ * @param session The session to list.
+ */
+export function openBranches(session: ThinkingSession): string[] {
+    return Object.keys(session.branches).filter(branchId => branchStatus(session, branchId) === 'open');
+}
+
+/**
+ * Checks that a thought does not continue an abandoned or adopted branch.
+ * @param session The session the thought is recorded in (only its branch resolutions are read, so an import can pass those resolved so far).
+ * @param thought The validated thought.
+ * @throws {Error} If the thought's branch has been resolved.
+ */
+export function checkBranchAcceptsThoughts(session: Pick<ThinkingSession, 'branchResolutions'>, thought: ThoughtData): void {
+    const resolution = thought.branchId === undefined ? undefined : session.branchResolutions[thought.branchId];
+    if (resolution?.status === 'abandoned') {
+        throw new Error(`Branch \`${thought.branchId}\` was abandoned (${resolution.reason}). Start a new \`branchId\` to explore it again.`);
+    }
+    if (resolution?.status === 'adopted') {
+        throw new Error(`Branch \`${thought.branchId}\` was adopted as the main line. Continue it without \`branchId\`.`);
+    }
+}
+
+/**
+ * Checks that a branch exists and has not been abandoned or adopted yet.
+ * @param session The session the branch belongs to.
+ * @param branchId The branch to resolve.
+ * @throws {Error} If the branch is unknown, is the main line, or was already resolved.
+ */
+export function checkBranchResolvable(session: ThinkingSession, branchId: string): void {
+    if (branchId === MAIN_LINE) {
+        throw new Error(`Invalid input: \`${MAIN_LINE}\` is the main line, not a branch.`);
+    }
+    if (!session.branches[branchId]) {
+        throw new Error(`Unknown branch: \`${branchId}\` in session \`${session.id}\`.`);
+    }
+    const resolution = session.branchResolutions[branchId];
+    if (resolution) {
+        throw new Error(`Branch \`${branchId}\` was already ${resolution.status}.`);
+    }
+}
+
+// --- Comparison ---
+
+/**
+ * Summarizes a line (a branch, or the main line) for a side-by-side comparison.
+ * @param session The session the line belongs to.
+ * @param branchId The branch to summarize, or `MAIN_LINE`.
+ * @throws {Error} If the session has no such branch.
+ */
+export function summarizeBranch(session: ThinkingSession, branchId: string): BranchSummary {
+    const isMain = branchId === MAIN_LINE;
+    const { chain } = effectiveChain(session, isMain ? undefined : branchId);
+    const origin = isMain ? undefined : session.graph.getBranchOrigin(branchId)!;
+    const scored = chain.filter(({ thought }) => thought.confidence_score !== undefined);
+    const last = chain[chain.length - 1];
+
+    return {
+        branch_id: branchId,
+        status: isMain ? 'main' : branchStatus(session, branchId),
+        reason: session.branchResolutions[branchId]?.reason ?? null,
+        forks_from: origin ? { node_id: origin.forkNodeId, thought_number: origin.forkThought } : null,
+        thought_count: session.graph.getNodes().filter(node => node.line === branchId).length,
+        final_confidence: scored.length > 0 ? scored[scored.length - 1].thought.confidence_score! : null,
+        unresolved_entities: unresolvedEntities(chain.map(({ thought }) => thought)),
+        last_conclusion: last
+            ? { position: last.position, thought_number: last.thought.thoughtNumber, thought: last.thought.thought, next_thought_needed: last.thought.nextThoughtNeeded }
+            : null,
+    };
+}
+
+// --- Persistence ---
+
+/**
+ * Validates the branch resolutions of a JSON session export.
+ * @param value The raw `branchResolutions` object.
+ * @param thoughtCount Number of thoughts in the export.
+ * @throws {Error} If an entry is malformed.
+ */
+export function parseBranchResolutions(value: unknown, thoughtCount: number): Record<string, BranchResolution> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error('Invalid input: `session.branchResolutions` must be an object keyed by branch id.');
+    }
+    for (const [branchId, resolution] of Object.entries(value as Record<string, any>)) {
+        const valid = typeof resolution === 'object' && resolution !== null
+            && (resolution.status === 'abandoned' || resolution.status === 'adopted')
+            && typeof resolution.at === 'string'
+            && (typeof resolution.reason === 'string' || (resolution.status === 'adopted' && resolution.reason === undefined))
+            && Number.isInteger(resolution.position) && resolution.position >= 0 && resolution.position <= thoughtCount;
+        if (!valid) {
+            throw new Error(`Invalid branch resolution for \`${branchId}\`: expected { status: "abandoned" | "adopted", at, reason, position }, where \`reason\` is only optional when adopted.`);
+        }
+    }
+    return value as Record<string, BranchResolution>;
+}
@@ -0,0 +1,167 @@
+import { GoalState, GoalStatus, ThoughtData } from './better-thinking-tool.js';
+import { BranchResolution } from './branch-lifecycle.js';
+
+// --- Interfaces ---
+
+/**
+ * A sub-goal declared for a session. Thoughts report progress on it through their `subgoal` field.
+ */
+export interface DeclaredSubgoal {
+    /** Identifier thoughts can reference in `subgoal.id`. */
+    id: string;
+    description: string;
+    /** Whether the session may only conclude once this sub-goal is achieved or abandoned. */
+    required: boolean;
+}
+
+/**
+ * The goals declared for a session.
+ */
+export interface SessionGoals {
+    /** The top-level goal (final outcome) of the session. */
+    goal: string;
+    subgoals: DeclaredSubgoal[];
+}
+
+/**
+ * Progress towards a session's declared goals. Field names match the tool response payload.
+ */
+export interface GoalProgress {
+    goal: { description: string; status: GoalStatus };
+    subgoals: Array<{ id: string; description: string; required: boolean; status: GoalStatus; updated_in: number | null }>;
+    /** Ids of sub-goals that are neither achieved nor abandoned. */
+    open_subgoals: string[];
+    /** Ids of required sub-goals that are neither achieved nor abandoned. */
+    open_required_subgoals: string[];
+    /** Share of sub-goals achieved, ignoring abandoned ones (0-100). */
+    progress_percent: number;
+}
+
+// --- Declaration ---
+
+const SUBGOAL_ID_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+/**
+ * Validates a goal declaration and merges it into a session's existing goals.
+ * New sub-goals without an id are numbered `sg1`, `sg2`, ...
+ * @param existing The session's current goals, if any.
+ * @param input Raw arguments: `goal` (required unless already declared) and `subgoals`.
+ * @returns The merged goals.
+ * @throws {Error} If the declaration is invalid or clashes with an existing sub-goal.
+ */
+export function declareGoals(existing: SessionGoals | undefined, input: Record<string, unknown>): SessionGoals {
+    if (input.goal !== undefined && (typeof input.goal !== 'string' || !input.goal.trim())) {
+        throw new Error('Invalid input: `goal` must be a non-empty string.');
+    }
+    const goal = (input.goal as string | undefined) ?? existing?.goal;
+    if (goal === undefined) {
+        throw new Error('Invalid input: `goal` is required when a session declares goals for the first time.');
+    }
+    if (input.subgoals !== undefined && !Array.isArray(input.subgoals)) {
+        throw new Error('Invalid input: `subgoals` must be an array.');
+    }
+
+    const subgoals = [...(existing?.subgoals ?? [])];
+    for (const [index, item] of ((input.subgoals ?? []) as any[]).entries()) {
+        if (typeof item !== 'object' || item === null) {
+            throw new Error(`Invalid item in subgoals at index ${index}: must be an object.`);
+        }
+        if (typeof item.description !== 'string' || !item.description.trim()) {
+            throw new Error(`Invalid item in subgoals at index ${index}: missing or invalid 'description' string.`);
+        }
+        if (item.required !== undefined && typeof item.required !== 'boolean') {
+            throw new Error(`Invalid item in subgoals at index ${index}: 'required' must be a boolean.`);
+        }
+        if (item.id !== undefined && (typeof item.id !== 'string' || !SUBGOAL_ID_PATTERN.test(item.id))) {
+            throw new Error(`Invalid item in subgoals at index ${index}: 'id' must be 1-64 letters, digits, '_', '.' or '-'.`);
+        }
+
+        let id: string | undefined = item.id;
+        if (id === undefined) {
+            let n = subgoals.length + 1;
+            while (subgoals.some(subgoal => subgoal.id === `sg${n}`)) {
+                n++;
+            }
+            id = `sg${n}`;
+        }
+        if (subgoals.some(subgoal => subgoal.id === id)) {
+            throw new Error(`Sub-goal \`${id}\` is already declared.`);
+        }
+        if (subgoals.some(subgoal => subgoal.description.toLowerCase() === item.description.toLowerCase())) {
+            throw new Error(`A sub-goal described as "${item.description}" is already declared.`);
+        }
+        subgoals.push({ id, description: item.description, required: item.required ?? true });
+    }
+    return { goal, subgoals };
+}
+
+// --- Progress ---
+
+/**
+ * Finds the declared sub-goal a thought's `subgoal` refers to: by `id` if given,
+ * otherwise by a case-insensitive match on the description.
+ */
+function findSubgoal(goals: SessionGoals, subgoal: GoalState): DeclaredSubgoal | undefined {
+    if (subgoal.id !== undefined) {
+        return goals.subgoals.find(candidate => candidate.id === subgoal.id);
+    }
+    const description = subgoal.description.toLowerCase();
+    return goals.subgoals.find(candidate => candidate.description.toLowerCase() === description);
+}
+
+/**
+ * Checks that a thought's `subgoal.id`, if set, references a declared sub-goal.
+ * A sub-goal given only by description may be undeclared; it is then simply not tracked.
+ * @param goals The session's declared goals, if any.
+ * @param subgoal The thought's sub-goal.
+ * @throws {Error} If `subgoal.id` does not match a declared sub-goal.
+ */
+export function checkSubgoalReference(goals: SessionGoals | undefined, subgoal: GoalState): void {
+    if (subgoal.id !== undefined && !(goals && findSubgoal(goals, subgoal))) {
+        throw new Error(`Unknown sub-goal \`${subgoal.id}\`. Declared sub-goals: ${goals?.subgoals.map(candidate => candidate.id).join(', ') || 'none'}.`);
+    }
+}
+
+/**
+ * Folds the `goal` and `subgoal` fields of a session's thoughts into progress on its declared goals.
+ * The latest status reported for a sub-goal wins. Thoughts on abandoned branches are ignored, since
+ * the reasoning they belong to was given up.
+ * @param goals The session's declared goals.
+ * @param thoughts The thoughts in the order they were recorded.
+ * @param branchResolutions The session's branch resolutions, to recognize abandoned branches (Optional).
+ */
+export function goalProgress(goals: SessionGoals, thoughts: ThoughtData[], branchResolutions: Record<string, BranchResolution> = {}): GoalProgress {
+    let goalStatus: GoalStatus = 'open';
+    const statuses = new Map<string, { status: GoalStatus; updatedIn: number }>();
+    for (const thought of thoughts) {
+        if (thought.branchId !== undefined && branchResolutions[thought.branchId]?.status === 'abandoned') {
+            continue;
+        }
+        if (thought.goal) {
+            goalStatus = thought.goal.status;
+        }
+        const declared = thought.subgoal ? findSubgoal(goals, thought.subgoal) : undefined;
+        if (declared) {
+            statuses.set(declared.id, { status: thought.subgoal!.status, updatedIn: thought.thoughtNumber });
+        }
+    }
+
+    const subgoals = goals.subgoals.map(subgoal => ({
+        id: subgoal.id,
+        description: subgoal.description,
+        required: subgoal.required,
+        status: statuses.get(subgoal.id)?.status ?? 'open' as GoalStatus,
+        updated_in: statuses.get(subgoal.id)?.updatedIn ?? null,
+    }));
+    const open = subgoals.filter(subgoal => subgoal.status !== 'achieved' && subgoal.status !== 'abandoned');
+    const counted = subgoals.filter(subgoal => subgoal.status !== 'abandoned');
+    const achieved = counted.filter(subgoal => subgoal.status === 'achieved');
+
+    return {
+        goal: { description: goals.goal, status: goalStatus },
+        subgoals,
+        open_subgoals: open.map(subgoal => subgoal.id),
+        open_required_subgoals: open.filter(subgoal => subgoal.required).map(subgoal => subgoal.id),
+        progress_percent: counted.length === 0 ? (goalStatus === 'achieved' ? 100 : 0) : Math.round(100 * achieved.length / counted.length),
+    };
+}
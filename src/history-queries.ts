@@ -0,0 +1,142 @@
+import { ThinkingSession, ThoughtData } from './better-thinking-tool.js';
+import { MAIN_LINE } from './thought-graph.js';
+
+// --- Interfaces ---
+
+/**
+ * A thought together with its 1-based position in the session's history.
+ * Thought numbers can repeat across branches, so the position is what identifies a record.
+ */
+export interface ThoughtEntry {
+    position: number;
+    thought: ThoughtData;
+}
+
+/**
+ * Records that a thought on the effective chain was superseded by a later revision.
+ */
+export interface SupersededThought {
+    /** The thought number that was replaced. */
+    thoughtNumber: number;
+    /** The thought number of the revision that replaced it. */
+    revisedBy: number;
+}
+
+/**
+ * One page of a larger result list.
+ */
+export interface Page<T> {
+    total: number;
+    offset: number;
+    limit: number;
+    nextOffset: number | null;
+    items: T[];
+}
+
+// --- Helper Functions ---
+
+/**
+ * Returns every thought of a session paired with its history position.
+ */
+function entries(session: ThinkingSession): ThoughtEntry[] {
+    return session.thoughtHistory.map((thought, index) => ({ position: index + 1, thought }));
+}
+
+/**
+ * Slices a result list into a page.
+ * @param items The full result list.
+ * @param offset Number of items to skip.
+ * @param limit Maximum number of items to return.
+ */
+export function paginate<T>(items: T[], offset: number, limit: number): Page<T> {
+    const pageItems = items.slice(offset, offset + limit);
+    const end = offset + pageItems.length;
+    return {
+        total: items.length,
+        offset,
+        limit,
+        nextOffset: end < items.length ? end : null,
+        items: pageItems,
+    };
+}
+
+// --- Queries ---
+
+/**
+ * Finds thoughts by number. Branches may reuse numbers, so several thoughts can match.
+ * @param session The session to search.
+ * @param thoughtNumber The thought number to look up.
+ * @param branchId Restrict to this branch; `null` restricts to the main line (Optional).
+ */
+export function findThoughts(session: ThinkingSession, thoughtNumber: number, branchId?: string | null): ThoughtEntry[] {
+    const line = branchId === null ? MAIN_LINE : branchId;
+    return session.graph.getNodes()
+        .filter(node => node.thought.thoughtNumber === thoughtNumber && (line === undefined || node.line === line))
+        .map(node => ({ position: node.id, thought: node.thought }));
+}
+
+/**
+ * Lists the thoughts recorded on a branch, in the order they were processed.
+ * @param session The session to search.
+ * @param branchId The branch to list.
+ * @throws {Error} If the session has no such branch.
+ */
+export function branchThoughts(session: ThinkingSession, branchId: string): ThoughtEntry[] {
+    if (!session.branches[branchId]) {
+        throw new Error(`Unknown branch: \`${branchId}\` in session \`${session.id}\`.`);
+    }
+    return session.graph.getNodes()
+        .filter(node => node.line === branchId)
+        .map(node => ({ position: node.id, thought: node.thought }));
+}
+
+/**
+ * Builds the effective reasoning chain: the path from the root to the tip of the main line
+ * (or of a branch, through its fork point) with every revision replacing the thought it revises.
+ * @param session The session to read.
+ * @param branchId Follow this branch instead of the main line (Optional; `MAIN_LINE` selects the main line).
+ * @returns The effective chain and the thoughts that revisions superseded.
+ * @throws {Error} If the session has no such branch.
+ */
+export function effectiveChain(session: ThinkingSession, branchId?: string): { chain: ThoughtEntry[]; superseded: SupersededThought[] } {
+    const line = branchId ?? MAIN_LINE;
+    if (line !== MAIN_LINE) {
+        branchThoughts(session, line); // Validates that the branch exists
+    }
+    const tip = session.graph.getLineTip(line);
+    const path = tip === undefined ? [] : session.graph.ancestors(tip);
+
+    const chain: ThoughtEntry[] = [];
+    const superseded: SupersededThought[] = [];
+    const replacedBy = new Map<number, number>(); // Node id of a revised thought -> node id of the revision that replaced it
+    for (const node of path) {
+        const entry = { position: node.id, thought: node.thought };
+        // A thought revised more than once is represented by its latest revision, so follow the replacements.
+        let revisedId = session.graph.outgoing(node.id, 'revision')[0]?.to;
+        while (revisedId !== undefined && replacedBy.has(revisedId)) {
+            revisedId = replacedBy.get(revisedId);
+        }
+        const revisedIndex = chain.findIndex(({ position }) => position === revisedId);
+        if (revisedIndex >= 0) {
+            superseded.push({ thoughtNumber: chain[revisedIndex].thought.thoughtNumber, revisedBy: node.thought.thoughtNumber });
+            replacedBy.set(chain[revisedIndex].position, node.id);
+            chain[revisedIndex] = entry; // The revision takes the place of the thought it corrects
+            continue;
+        }
+        chain.push(entry);
+    }
+    return { chain, superseded };
+}
+
+/**
+ * Case-insensitive text search over thought text and assessed knowledge entities.
+ * @param session The session to search.
+ * @param query The text to look for.
+ * @returns Matching thoughts, in history order.
+ */
+export function searchThoughts(session: ThinkingSession, query: string): ThoughtEntry[] {
+    const needle = query.toLowerCase();
+    return entries(session).filter(({ thought }) =>
+        thought.thought.toLowerCase().includes(needle)
+        || (thought.knowledge_assessment ?? []).some(ka => ka.entity.toLowerCase().includes(needle)));
+}
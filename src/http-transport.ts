@@ -0,0 +1,155 @@
+import * as http from 'node:http';
+import chalk from 'chalk';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+
+import { logger } from './logger.js';
+
+// --- Constants ---
+
+/** Path clients open to start an SSE stream. */
+export const SSE_PATH = '/sse';
+/** Path clients POST their JSON-RPC messages to, with `?sessionId=<connection id>`. */
+export const MESSAGES_PATH = '/messages';
+/** Path answering liveness probes. */
+export const HEALTH_PATH = '/health';
+/** Query parameter of `GET /sse` naming a stable client identity, e.g. `/sse?clientId=ci-agent`. */
+export const CLIENT_ID_PARAM = 'clientId';
+/** Header alternative to the `clientId` query parameter. */
+export const CLIENT_ID_HEADER = 'x-client-id';
+
+/** Client ids become directory names, so they are limited to characters that are safe there (no dots). */
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// --- Interfaces ---
+
+/**
+ * Options for the HTTP transport.
+ */
+export interface HttpTransportOptions {
+    host: string;
+    port: number;
+    /** Version reported by the health endpoint. */
+    version: string;
+    /**
+     * Creates the MCP server for one connection. Every connection gets its own server,
+     * so nothing a client does is visible to the others.
+     * @param connection The SSE session id of the connection (new on every connect), and the
+     * client id the client identified itself with, which stays the same when it reconnects.
+     */
+    createServer: (connection: { connectionId: string; clientId?: string }) => Server;
+}
+
+/**
+ * A listening HTTP transport.
+ */
+export interface HttpTransportHandle {
+    /** Base URL the transport listens on, e.g. `http://127.0.0.1:3000`. */
+    url: string;
+    /** Closes every connection and stops listening. */
+    close(): Promise<void>;
+}
+
+/**
+ * An open SSE connection and the server bound to it.
+ */
+interface Connection {
+    server: Server;
+    transport: SSEServerTransport;
+    clientId?: string;
+}
+
+// --- Transport ---
+
+/**
+ * Writes a small JSON response.
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+/**
+ * Serves MCP over HTTP using the SSE transport: `GET /sse[?clientId=<id>]` opens a connection,
+ * `POST /messages?sessionId=...` delivers client messages to it, and `GET /health` reports liveness.
+ * @param options Host, port and the per-connection server factory.
+ * @returns A handle to inspect and close the transport once it is listening.
+ * @throws {Error} If the port cannot be bound.
+ */
+export async function startHttpTransport(options: HttpTransportOptions): Promise<HttpTransportHandle> {
+    const connections = new Map<string, Connection>();
+
+    const httpServer = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+        try {
+            if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+                sendJson(res, 200, { status: 'ok', version: options.version, connections: connections.size });
+                return;
+            }
+
+            if (req.method === 'GET' && url.pathname === SSE_PATH) {
+                const header = req.headers[CLIENT_ID_HEADER];
+                const clientId = url.searchParams.get(CLIENT_ID_PARAM) ?? (Array.isArray(header) ? header[0] : header);
+                if (clientId !== undefined && !CLIENT_ID_PATTERN.test(clientId)) {
+                    sendJson(res, 400, { error: "Invalid client id: must be 1-64 letters, digits, '_' or '-'." });
+                    return;
+                }
+                // Connections of one client share its stored sessions, so only one may be open at a time.
+                if (clientId !== undefined && [...connections.values()].some(connection => connection.clientId === clientId)) {
+                    sendJson(res, 409, { error: `Client ${clientId} is already connected.` });
+                    return;
+                }
+
+                const transport = new SSEServerTransport(MESSAGES_PATH, res);
+                const connectionId = transport.sessionId;
+                const server = options.createServer({ connectionId, clientId });
+                connections.set(connectionId, { server, transport, clientId });
+                // `connect` takes over the transport's close callback, so track closing on the server.
+                server.onclose = () => {
+                    if (!connections.delete(connectionId)) {
+                        return; // Already closed: the transport reports both the explicit close and the ended stream
+                    }
+                    logger.info(chalk.gray(`🔌 Connection ${connectionId} closed (${connections.size} open)`), { event: 'connection_closed', connection: connectionId, open_connections: connections.size });
+                };
+                await server.connect(transport);
+                logger.info(chalk.gray(`🔌 Connection ${connectionId}${clientId ? ` of client ${clientId}` : ''} opened (${connections.size} open)`), { event: 'connection_opened', connection: connectionId, client: clientId ?? null, open_connections: connections.size });
+                return;
+            }
+
+            if (req.method === 'POST' && url.pathname === MESSAGES_PATH) {
+                const connectionId = url.searchParams.get('sessionId') ?? '';
+                const connection = connections.get(connectionId);
+                if (!connection) {
+                    sendJson(res, 404, { error: `Unknown connection: ${connectionId || '(missing sessionId)'}` });
+                    return;
+                }
+                await connection.transport.handlePostMessage(req, res);
+                return;
+            }
+
+            sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+        } catch (error) {
+            logger.error(chalk.red(`HTTP ${req.method} ${url.pathname} failed: ${error instanceof Error ? error.message : error}`), { event: 'http_request_failed', method: req.method, path: url.pathname });
+            if (!res.headersSent) {
+                sendJson(res, 500, { error: 'Internal server error' });
+            }
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(options.port, options.host, () => {
+            httpServer.off('error', reject);
+            resolve();
+        });
+    });
+    const address = httpServer.address();
+    const port = typeof address === 'object' && address ? address.port : options.port;
+
+    return {
+        url: `http://${options.host.includes(':') ? `[${options.host}]` : options.host}:${port}`,
+        close: async () => {
+            await Promise.all([...connections.values()].map(({ server }) => server.close()));
+            await new Promise<void>((resolve, reject) => httpServer.close(error => error ? reject(error) : resolve()));
+        },
+    };
+}
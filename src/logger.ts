@@ -0,0 +1,96 @@
+import { stripAnsi } from './text-width.js';
+
+// --- Levels and Formats ---
+
+/** Log levels from most to least verbose. `silent` disables all output. */
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * How log records are written:
+ * - `text`: the colored, human-readable message.
+ * - `json`: one JSON object per line (NDJSON) with timestamp, level, event type and context, without colors.
+ */
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+/**
+ * Structured context attached to a log record. Only written in the `json` format.
+ */
+export interface LogContext {
+    /** Machine-readable event type, e.g. `thought_recorded` or `session_closed`. Defaults to `log`. */
+    event?: string;
+    /** Id of the session the record is about. */
+    session?: string;
+    /** Number of the thought the record is about. */
+    thought?: number;
+    /** Any further fields, written as they are. */
+    [field: string]: unknown;
+}
+
+// --- Logger ---
+
+/**
+ * Minimal leveled logger. Everything goes to stderr, because stdout carries the MCP stdio transport
+ * (and the output of offline CLI commands).
+ */
+class Logger {
+    private threshold: number = LOG_LEVELS.indexOf('info');
+    private format: LogFormat = 'text';
+
+    /** Only messages at this level or above are written. */
+    public setLevel(level: LogLevel): void {
+        this.threshold = LOG_LEVELS.indexOf(level);
+    }
+
+    /** Selects human-readable text or NDJSON records. */
+    public setFormat(format: LogFormat): void {
+        this.format = format;
+    }
+
+    /** The format records are currently written in. */
+    public getFormat(): LogFormat {
+        return this.format;
+    }
+
+    /** Whether messages at the given level are currently written. */
+    public isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+        return LOG_LEVELS.indexOf(level) >= this.threshold;
+    }
+
+    /** Logs diagnostic detail. */
+    public debug(message: string, context?: LogContext): void {
+        this.write('debug', message, context);
+    }
+
+    /** Logs normal progress, such as started sessions and rendered thoughts. */
+    public info(message: string, context?: LogContext): void {
+        this.write('info', message, context);
+    }
+
+    /** Logs a recoverable problem. */
+    public warn(message: string, context?: LogContext): void {
+        this.write('warn', message, context);
+    }
+
+    /** Logs a failure. */
+    public error(message: string, context?: LogContext): void {
+        this.write('error', message, context);
+    }
+
+    /** Writes the record to stderr if its level is enabled. */
+    private write(level: Exclude<LogLevel, 'silent'>, message: string, context: LogContext = {}): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+        if (this.format === 'text') {
+            console.error(message);
+            return;
+        }
+        const { event = 'log', ...fields } = context;
+        console.error(JSON.stringify({ time: new Date().toISOString(), level, event, ...fields, message: stripAnsi(message).trim() }));
+    }
+}
+
+/** The process-wide logger, configured once from the command line. */
+export const logger = new Logger();
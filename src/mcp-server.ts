@@ -0,0 +1,558 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+    CallToolRequestSchema,
+    ErrorCode,
+    GetPromptRequestSchema,
+    ListPromptsRequestSchema,
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ListToolsRequestSchema,
+    McpError,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    Tool,
+    UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import chalk from 'chalk';
+
+import { BetterThinkingToolLogic, ToolResponse } from './better-thinking-tool.js';
+import { logger } from './logger.js';
+import { findPrompt, REASONING_PROMPTS, renderPrompt, validatePromptArguments } from './reasoning-prompts.js';
+import { EXPORT_FORMATS } from './session-export.js';
+import { branchUri, changedResourceUris, listSessionResources, parseResourceUri, readSessionResource, RESOURCE_MIME_TYPE, RESOURCE_TEMPLATES, sessionUri } from './session-resources.js';
+
+// --- Tool Definition (Metadata and Schema) ---
+// This defines how the tool appears to the MCP client (e.g., Claude).
+// The detailed description guides the LLM on how to use the tool effectively.
+// The schema defines the expected input parameters.
+const BETTER_THINKING_TOOL_DEFINITION: Tool = {
+    name: "better_thinking",
+    description: `A tool for structured, multi-step reasoning that reflects internal cognitive processes observed in LLMs (Anthropic Circuits Research, 2025). Use this to articulate not just conclusions, but the intermediate concepts, parallel considerations, planning hints, confidence levels, knowledge checks, and **goal alignment** involved.
+
+**Goal:** Enhance reasoning transparency, quality, and strategic alignment by using the provided fields to model a more realistic, goal-aware, circuit-inspired thought process.
+
+**Refined Guidance on Using Existing Fields:**
+
+*   **\`thought\` (string, required):** Articulate the core step clearly. Enhance richness by including:
+    *   **Reasoning Cluster (Supernode Idea):** Group related internal factors contributing to this step. *(e.g., "Reasoning Cluster (Supports 'Texas'): {Concept: City:Dallas (strong), Concept: Mention of 'South' (medium), Heuristic: Geography (medium)}")*.
+    *   **Planning/Strategy Notes:** Mention candidate actions/endpoints considered. *(e.g., "Plan: Rhyme with 'it'. Candidates: 'rabbit', 'habit'. Choosing 'rabbit'.")*.
+    *   **Context Effects:** Note if low-level factors (grammar, instructions) heavily influence the step.
+
+*   **\`goal\` / \`subgoal\` ({description, status}, optional):** State the overall task objective (long-term/final outcome) and the immediate sub-goal (short-term outcome) this step serves. Use \`status\` ('open', 'achieved', 'blocked', 'abandoned') to assess progress, e.g. mark the sub-goal 'achieved' when this step accomplishes it. If sub-goals were declared with \`declare_goals\`, reference one by \`subgoal.id\`; the response then reports \`goal_progress\`.
+
+*   **\`method\` (optional):** How the result was obtained, for faithfulness: 'calculation', 'heuristic', 'retrieval' or 'backward' (backward reasoning from the goal).
+
+*   **\`alternatives\` (Array of {option, decision, reason?}, optional):** Competing options weighed in this step, each 'chosen' or 'rejected'. *(e.g., \`[{"option": "Direct calc", "decision": "chosen"}, {"option": "Estimation", "decision": "rejected", "reason": "too coarse"}]\`)*. Reserve \`branchId\` for paths actually explored over multiple steps.
+
+*   **\`concepts\` (Array of strings, optional):** Key intermediate concepts activated or used. *(e.g., \`["State:Texas"]\`)*.
+
+*   **\`evidence\` (Array of thought numbers, optional):** Earlier thoughts this step relies on. Each must exist in the session.
+
+*   **\`confidence_score\` (number, 0.0-1.0, optional):** Reflect internal certainty in the step's conclusion. Optionally, relate confidence to its perceived effectiveness in advancing towards desired short-term and long-term outcomes.
+
+*   **\`knowledge_assessment\` (Array of {entity, status}, optional):** Proactively model internal knowledge checks *before* asserting facts. Flag entities as 'known', 'unknown', or 'uncertain' to mitigate hallucination. *(e.g., \`[{"entity": "Andrej Karpathy", "status": "uncertain"}]\`)*.
+
+*   **\`isRevision\` / \`revisesThought\` (optional):** Model internal belief updates or course corrections based on new information or inferences.
+
+*   **\`branchFromThought\` / \`branchId\` (optional):** Explicitly model the exploration of parallel, competing hypotheses or strategies *when pursued over subsequent steps*. The first thought of a branch must set \`branchFromThought\` to an existing thought; later thoughts on the branch may repeat it but cannot change it.
+
+*   **\`mergeIntoThought\` (optional):** On a branch thought, feed the branch's conclusion into a thought on another line (e.g. the main-line thought that adopts it). Merging into a thought the branch grew out of is rejected as a cycle.
+
+*   **\`thoughtNumber\`, \`totalThoughts\`, \`nextThoughtNeeded\` (required):** Manage sequence flow. \`totalThoughts\` estimates steps to the **final outcome**; adjust as needed. \`nextThoughtNeeded=false\` signifies achievement of the **final outcome**, supported by the reasoning chain.
+
+**Overall:** Aim for a granular, reflective, and **goal-oriented** process. Articulate the 'why' (concepts, plans, goals) not just the 'what'. Use optional fields to expose uncertainty, knowledge limits, internal checks, and strategic alignment.`,
+    inputSchema: {
+        type: "object",
+        properties: {
+            thought: { type: "string", description: "Core reasoning step, enriched with intermediate concepts, hypotheses, plans, calculation methods, or reflections." },
+            nextThoughtNeeded: { type: "boolean", description: "True if more steps needed, False when final answer reached and verified." },
+            thoughtNumber: { type: "integer", description: "Current step number (>= 1).", minimum: 1 },
+            totalThoughts: { type: "integer", description: "Current estimate of total thoughts needed (>= 1). Adjust as needed.", minimum: 1 },
+            confidence_score: { type: "number", minimum: 0, maximum: 1, description: "Confidence (0.0-1.0) in this thought's conclusion, reflecting internal certainty (Optional)." },
+            knowledge_assessment: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        entity: { type: "string", description: "The specific entity being assessed." },
+                        status: { type: "string", enum: ['known', 'unknown', 'uncertain'], description: "Internal check: 'known', 'unknown', or 'uncertain'." }
+                    },
+                    required: ["entity", "status"]
+                },
+                description: "Proactive assessment of knowledge about key entities to avoid hallucination (Optional)."
+            },
+            isRevision: { type: "boolean", description: "True if this represents an internal belief update or correction (Optional)." },
+            revisesThought: { type: "integer", description: "If revising, the number of the thought being updated (Optional).", minimum: 1 },
+            branchFromThought: { type: "integer", description: "If exploring alternatives, the thought number this diverges from (Optional).", minimum: 1 },
+            branchId: { type: "string", description: "Identifier for the alternative exploration branch (Optional)." },
+            mergeIntoThought: { type: "integer", description: "On a branch thought, the thought number on another line that this branch's conclusion merges into (Optional).", minimum: 1 },
+            goal: {
+                type: "object",
+                properties: {
+                    description: { type: "string", description: "The overall task objective." },
+                    status: { type: "string", enum: ['open', 'achieved', 'blocked', 'abandoned'], description: "Progress of the goal as of this thought." }
+                },
+                required: ["description", "status"],
+                description: "The overall goal this thought serves (Optional)."
+            },
+            subgoal: {
+                type: "object",
+                properties: {
+                    id: { type: "string", description: "Id of a sub-goal declared with `declare_goals`. Must match a declared sub-goal (Optional)." },
+                    description: { type: "string", description: "The immediate sub-goal." },
+                    status: { type: "string", enum: ['open', 'achieved', 'blocked', 'abandoned'], description: "Progress of the sub-goal as of this thought." }
+                },
+                required: ["description", "status"],
+                description: "The immediate sub-goal this thought works on. Declared sub-goals are matched by `id`, or else by description (Optional)."
+            },
+            method: { type: "string", enum: ['calculation', 'heuristic', 'retrieval', 'backward'], description: "How this thought's result was obtained (Optional)." },
+            alternatives: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        option: { type: "string", description: "The option considered." },
+                        decision: { type: "string", enum: ['chosen', 'rejected'], description: "Whether the option was taken." },
+                        reason: { type: "string", description: "Why it was chosen or rejected (Optional)." }
+                    },
+                    required: ["option", "decision"]
+                },
+                description: "Options weighed in this step (Optional)."
+            },
+            concepts: { type: "array", items: { type: "string" }, description: "Key intermediate concepts used in this step (Optional)." },
+            evidence: { type: "array", items: { type: "integer", minimum: 1 }, description: "Numbers of earlier thoughts this step relies on (Optional)." },
+            needsMoreThoughts: { type: "boolean", description: "Deprecated. Use nextThoughtNeeded (Optional)." }, // Keep schema for compatibility, logic ignores it
+            sessionId: { type: "string", description: "Session to record this thought in. Defaults to the active session, starting one if needed (Optional)." },
+            includeAnalysis: { type: "boolean", description: "Include the session's reasoning quality analysis (as from `analyze_thinking_session`) in the response (Optional)." }
+        },
+        required: ["thought", "nextThoughtNeeded", "thoughtNumber", "totalThoughts"]
+    }
+};
+
+// --- Session Tool Definitions ---
+// Sessions keep unrelated reasoning problems apart. `better_thinking` records into the
+// active session unless a `sessionId` is given explicitly.
+const START_SESSION_TOOL_DEFINITION: Tool = {
+    name: "start_thinking_session",
+    description: "Start a new, independent reasoning session with its own thought history and branches, and make it the active session. Use one session per distinct problem.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            sessionId: { type: "string", description: "Explicit id for the session (letters, digits, `_`, `.`, `-`). Generated if omitted (Optional)." },
+            title: { type: "string", description: "Short description of the problem being reasoned about (Optional)." },
+            policies: {
+                type: "object",
+                description: "Stricter guardrail rules for this session only, mapping rule names (e.g. `requireConfidence`) to a severity (`off`, `warn`, `error`) or `{ severity, limit }`. Each field only applies where it is stricter than the server's policy: a higher severity or a tighter limit (Optional).",
+                additionalProperties: {
+                    oneOf: [
+                        { type: "string", enum: ["off", "warn", "error"] },
+                        { type: "object", properties: { severity: { type: "string", enum: ["off", "warn", "error"] }, limit: { type: "integer", minimum: 1 } } }
+                    ]
+                }
+            }
+        }
+    }
+};
+
+const LIST_SESSIONS_TOOL_DEFINITION: Tool = {
+    name: "list_thinking_sessions",
+    description: "List reasoning sessions with their status, thought counts and branches, and report which one is active.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            includeClosed: { type: "boolean", description: "Include closed sessions in the listing. Defaults to true (Optional)." }
+        }
+    }
+};
+
+const SWITCH_SESSION_TOOL_DEFINITION: Tool = {
+    name: "switch_thinking_session",
+    description: "Make an existing open session the active one, so subsequent `better_thinking` calls without `sessionId` are recorded there.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            sessionId: { type: "string", description: "Id of the session to activate." }
+        },
+        required: ["sessionId"]
+    }
+};
+
+const CLOSE_SESSION_TOOL_DEFINITION: Tool = {
+    name: "close_thinking_session",
+    description: "Close a reasoning session once its problem is finished. Closed sessions keep their history but reject new thoughts.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            sessionId: { type: "string", description: "Id of the session to close. Defaults to the active session (Optional)." }
+        }
+    }
+};
+
+const DECLARE_GOALS_TOOL_DEFINITION: Tool = {
+    name: "declare_goals",
+    description: "Declare a session's goal and the sub-goals needed to reach it. Thoughts report progress with `subgoal: { id, status }`, and every `better_thinking` response then includes `goal_progress`. Calling it again adds sub-goals.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            goal: { type: "string", description: "The overall goal. Required the first time goals are declared in a session (Optional)." },
+            subgoals: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        id: { type: "string", description: "Id thoughts use to reference the sub-goal. Generated (`sg1`, `sg2`, ...) if omitted (Optional)." },
+                        description: { type: "string", description: "What the sub-goal is." },
+                        required: { type: "boolean", description: "Whether the session may only conclude once it is achieved or abandoned. Defaults to true (Optional)." }
+                    },
+                    required: ["description"]
+                },
+                description: "Sub-goals to add (Optional)."
+            },
+            sessionId: { type: "string", description: "Session to declare the goals in. Defaults to the active session (Optional)." }
+        }
+    }
+};
+
+// --- Query Tool Definitions ---
+// Read-back tools let the model re-read its own reasoning history. Closed sessions can still
+// be queried. List results are paged with `offset`/`limit`; follow `next_offset` for more.
+const QUERY_COMMON_PROPERTIES = {
+    sessionId: { type: "string", description: "Session to read. Defaults to the active session (Optional)." },
+    offset: { type: "integer", minimum: 0, description: "Number of results to skip. Defaults to 0 (Optional)." },
+    limit: { type: "integer", minimum: 1, maximum: 100, description: "Maximum number of results to return. Defaults to 20 (Optional)." }
+};
+
+const GET_THOUGHT_TOOL_DEFINITION: Tool = {
+    name: "get_thought",
+    description: "Re-read a previously recorded thought by its number, including all its metadata. Branches may reuse thought numbers, so every match is returned unless `branchId` narrows it down.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            thoughtNumber: { type: "integer", minimum: 1, description: "The thought number to retrieve." },
+            branchId: { type: "string", description: "Only return the thought from this branch; use \"main\" for the main line (Optional)." },
+            ...QUERY_COMMON_PROPERTIES
+        },
+        required: ["thoughtNumber"]
+    }
+};
+
+const LIST_BRANCH_THOUGHTS_TOOL_DEFINITION: Tool = {
+    name: "list_branch_thoughts",
+    description: "List the thoughts recorded on an alternative branch, in order, to see what the branch explored and concluded.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            branchId: { type: "string", description: "The branch to list." },
+            ...QUERY_COMMON_PROPERTIES
+        },
+        required: ["branchId"]
+    }
+};
+
+const GET_EFFECTIVE_CHAIN_TOOL_DEFINITION: Tool = {
+    name: "get_effective_chain",
+    description: "Get the current effective reasoning chain: the main line (or a branch with the main-line thoughts up to its fork point) where the latest revision of a thought replaces it. Also lists which thoughts were superseded and by what.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            branchId: { type: "string", description: "Follow this branch instead of the main line; \"main\" selects the main line (Optional)." },
+            ...QUERY_COMMON_PROPERTIES
+        }
+    }
+};
+
+const SEARCH_THOUGHTS_TOOL_DEFINITION: Tool = {
+    name: "search_thoughts",
+    description: "Case-insensitive text search over recorded thoughts and their assessed knowledge entities.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            query: { type: "string", description: "Text to search for." },
+            ...QUERY_COMMON_PROPERTIES
+        },
+        required: ["query"]
+    }
+};
+
+// --- Branch Lifecycle Tool Definitions ---
+// A branch stays active until its conclusion merges into another line (`mergeIntoThought`),
+// it is abandoned, or it is adopted as the main line. Resolved branches accept no further thoughts.
+const ABANDON_BRANCH_TOOL_DEFINITION: Tool = {
+    name: "abandon_branch",
+    description: "Mark an alternative branch as abandoned, with the reason it was given up. It is no longer listed in `active_branches` and accepts no further thoughts, but stays readable.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            branchId: { type: "string", description: "The branch to abandon." },
+            reason: { type: "string", description: "Why the branch is given up, e.g. the evidence that ruled it out." },
+            sessionId: { type: "string", description: "Session the branch belongs to. Defaults to the active session (Optional)." }
+        },
+        required: ["branchId", "reason"]
+    }
+};
+
+const ADOPT_BRANCH_TOOL_DEFINITION: Tool = {
+    name: "adopt_branch",
+    description: "Adopt a branch as the main line: the next `better_thinking` call without `branchId` continues from the branch's last thought, and main-line thoughts recorded after the fork point drop out of the effective chain. The branch must fork from the main line.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            branchId: { type: "string", description: "The branch to adopt." },
+            reason: { type: "string", description: "Why this branch wins (Optional)." },
+            sessionId: { type: "string", description: "Session the branch belongs to. Defaults to the active session (Optional)." }
+        },
+        required: ["branchId"]
+    }
+};
+
+const COMPARE_BRANCHES_TOOL_DEFINITION: Tool = {
+    name: "compare_branches",
+    description: "Compare two lines of reasoning side by side: status, thought count, final confidence, knowledge entities still 'unknown'/'uncertain', and the last conclusion of each. Use \"main\" for the main line.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            branchA: { type: "string", description: "The first branch, or \"main\"." },
+            branchB: { type: "string", description: "The second branch, or \"main\"." },
+            sessionId: { type: "string", description: "Session to read. Defaults to the active session (Optional)." }
+        },
+        required: ["branchA", "branchB"]
+    }
+};
+
+// --- Analysis Tool Definitions ---
+const ANALYZE_SESSION_TOOL_DEFINITION: Tool = {
+    name: "analyze_thinking_session",
+    description: "Analyze the quality of a session's reasoning: confidence trajectory, trend and sharp drops; entities still 'unknown'/'uncertain' that were never re-assessed as 'known'; revisions that lowered confidence; abandoned branches; repeated upward drift of `totalThoughts`; and concluding with `nextThoughtNeeded=false` despite low confidence or open unknowns. Use the `warnings` list to decide what to revisit before concluding.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            sessionId: { type: "string", description: "Session to analyze. Defaults to the active session (Optional)." }
+        }
+    }
+};
+
+const SUMMARIZE_SESSION_TOOL_DEFINITION: Tool = {
+    name: "summarize_thinking_session",
+    description: "Summarize a long session compactly and deterministically (no LLM involved): the effective chain with superseded thoughts dropped, key conclusions, the final confidence of every branch, the latest knowledge status of every entity, and goal progress. The summary fits a character or token budget. Set `checkpoint` to store the summary; you can then drop the summarized thoughts from your context and later request only what happened since with `sinceCheckpoint`.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            sessionId: { type: "string", description: "Session to summarize. Defaults to the active session (Optional)." },
+            maxCharacters: { type: "integer", minimum: 1000, description: "Budget for the summary as JSON, in characters. Defaults to 8000 (Optional)." },
+            maxTokens: { type: "integer", minimum: 250, description: "Budget in tokens, estimated at 4 characters per token. The smaller budget wins if both are set (Optional)." },
+            checkpoint: { type: "boolean", description: "Store this summary as the session's checkpoint (Optional)." },
+            sinceCheckpoint: { type: "boolean", description: "Only summarize thoughts recorded after the latest checkpoint (Optional)." }
+        }
+    }
+};
+
+// --- Export Tool Definitions ---
+const EXPORT_SESSION_TOOL_DEFINITION: Tool = {
+    name: "export_thinking_session",
+    description: "Render a session's thoughts, revisions and branches for sharing: a Mermaid flowchart, Graphviz DOT, a readable Markdown transcript (with confidence and knowledge assessments), or versioned JSON that `import_thinking_session` can load again.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            format: { type: "string", enum: [...EXPORT_FORMATS], description: "Output format." },
+            sessionId: { type: "string", description: "Session to export. Defaults to the active session (Optional)." }
+        },
+        required: ["format"]
+    }
+};
+
+const IMPORT_SESSION_TOOL_DEFINITION: Tool = {
+    name: "import_thinking_session",
+    description: "Load a JSON export produced by `export_thinking_session` as a new session. All thoughts are re-validated; nothing is imported if any of them is invalid.",
+    inputSchema: {
+        type: "object",
+        properties: {
+            document: { type: ["object", "string"], description: "The JSON export, as an object or a JSON string." },
+            sessionId: { type: "string", description: "Id to import the session under. Defaults to the id in the export (Optional)." }
+        },
+        required: ["document"]
+    }
+};
+
+// All tools advertised by the server, in listing order.
+const TOOL_DEFINITIONS: Tool[] = [
+    BETTER_THINKING_TOOL_DEFINITION,
+    START_SESSION_TOOL_DEFINITION,
+    LIST_SESSIONS_TOOL_DEFINITION,
+    SWITCH_SESSION_TOOL_DEFINITION,
+    CLOSE_SESSION_TOOL_DEFINITION,
+    DECLARE_GOALS_TOOL_DEFINITION,
+    GET_THOUGHT_TOOL_DEFINITION,
+    LIST_BRANCH_THOUGHTS_TOOL_DEFINITION,
+    GET_EFFECTIVE_CHAIN_TOOL_DEFINITION,
+    SEARCH_THOUGHTS_TOOL_DEFINITION,
+    ABANDON_BRANCH_TOOL_DEFINITION,
+    ADOPT_BRANCH_TOOL_DEFINITION,
+    COMPARE_BRANCHES_TOOL_DEFINITION,
+    ANALYZE_SESSION_TOOL_DEFINITION,
+    SUMMARIZE_SESSION_TOOL_DEFINITION,
+    EXPORT_SESSION_TOOL_DEFINITION,
+    IMPORT_SESSION_TOOL_DEFINITION,
+];
+
+// --- Server Setup ---
+
+/** Server metadata reported to clients. */
+export const serverInfo = {
+    name: "better-thinking-server",
+    version: "0.6.4", // Match package.json version
+};
+
+/**
+ * Creates an MCP server whose tool calls are handled by the given logic instance.
+ * The logic's sessions are also exposed as `thinking://` resources, and subscribed clients
+ * are notified whenever a thought is recorded. Guided reasoning modes are offered as prompts.
+ * @param toolLogic The tool logic holding the sessions this server works on.
+ * @returns The configured server, ready to be connected to a transport.
+ */
+export function createServer(toolLogic: BetterThinkingToolLogic): Server {
+    // Create the MCP Server instance with metadata.
+    const server = new Server(serverInfo, {
+        capabilities: {
+            tools: {}, // Tools are dynamically listed via request handler
+            resources: { subscribe: true, listChanged: true }, // Sessions, thoughts and branches as `thinking://` resources
+            prompts: {}, // Guided reasoning modes
+        },
+    });
+
+    // Maps each tool name to the logic method that handles it.
+    const toolHandlers: Record<string, (args: unknown) => ToolResponse> = {
+        [BETTER_THINKING_TOOL_DEFINITION.name]: (args) => toolLogic.processThought(args),
+        [START_SESSION_TOOL_DEFINITION.name]: (args) => toolLogic.startSession(args),
+        [LIST_SESSIONS_TOOL_DEFINITION.name]: (args) => toolLogic.listSessions(args),
+        [SWITCH_SESSION_TOOL_DEFINITION.name]: (args) => toolLogic.switchSession(args),
+        [CLOSE_SESSION_TOOL_DEFINITION.name]: (args) => toolLogic.closeSession(args),
+        [DECLARE_GOALS_TOOL_DEFINITION.name]: (args) => toolLogic.declareGoals(args),
+        [GET_THOUGHT_TOOL_DEFINITION.name]: (args) => toolLogic.getThought(args),
+        [LIST_BRANCH_THOUGHTS_TOOL_DEFINITION.name]: (args) => toolLogic.listBranchThoughts(args),
+        [GET_EFFECTIVE_CHAIN_TOOL_DEFINITION.name]: (args) => toolLogic.getEffectiveChain(args),
+        [SEARCH_THOUGHTS_TOOL_DEFINITION.name]: (args) => toolLogic.searchThoughts(args),
+        [ABANDON_BRANCH_TOOL_DEFINITION.name]: (args) => toolLogic.abandonBranch(args),
+        [ADOPT_BRANCH_TOOL_DEFINITION.name]: (args) => toolLogic.adoptBranch(args),
+        [COMPARE_BRANCHES_TOOL_DEFINITION.name]: (args) => toolLogic.compareBranches(args),
+        [ANALYZE_SESSION_TOOL_DEFINITION.name]: (args) => toolLogic.analyzeSession(args),
+        [SUMMARIZE_SESSION_TOOL_DEFINITION.name]: (args) => toolLogic.summarizeSession(args),
+        [EXPORT_SESSION_TOOL_DEFINITION.name]: (args) => toolLogic.exportSession(args),
+        [IMPORT_SESSION_TOOL_DEFINITION.name]: (args) => toolLogic.importSession(args),
+    };
+
+    // --- Request Handlers ---
+
+    // Handles requests from the client to list available tools.
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+        tools: TOOL_DEFINITIONS,
+    }));
+
+    // Handles requests from the client to execute a tool.
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        // Delegate the actual processing to the dedicated logic class instance.
+        const handler = toolHandlers[request.params.name];
+        if (handler) {
+            return handler(request.params.arguments);
+        }
+
+        // Handle calls for unknown tools.
+        logger.error(chalk.red(`Received call for unknown tool: ${request.params.name}`), { event: 'unknown_tool', tool: request.params.name });
+        return {
+            content: [{ type: "text", text: `Unknown tool: ${request.params.name}` }],
+            isError: true
+        };
+    });
+
+    // --- Resources ---
+
+    // Lists every session and branch; single thoughts are reachable through the templates.
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+        resources: listSessionResources(toolLogic.getSessions()),
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+        resourceTemplates: RESOURCE_TEMPLATES,
+    }));
+
+    // Reads a session, the thoughts with a given number, or a branch as a JSON document.
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+        try {
+            const target = parseResourceUri(uri);
+            const session = toolLogic.getSession(target.sessionId);
+            if (!session) {
+                throw new Error(`Unknown session: \`${target.sessionId}\`.`);
+            }
+            return { contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: readSessionResource(session, target) }] };
+        } catch (error) {
+            throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+        }
+    });
+
+    // Tracks which resources this client wants `notifications/resources/updated` for.
+    const subscriptions = new Set<string>();
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        try {
+            parseResourceUri(request.params.uri);
+        } catch (error) {
+            throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+        }
+        subscriptions.add(request.params.uri);
+        return {};
+    });
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        return {};
+    });
+
+    // --- Prompts ---
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+        prompts: REASONING_PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args })),
+    }));
+
+    // Starts a session with the mode's title and policy defaults and returns the instructions for it. The session is
+    // not made active, so a client that only previews a prompt does not redirect calls that omit `sessionId`.
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        const prompt = findPrompt(request.params.name);
+        if (!prompt) {
+            throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+        }
+        let args: Record<string, string>;
+        try {
+            args = validatePromptArguments(prompt, request.params.arguments);
+        } catch (error) {
+            throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+        }
+
+        const response = toolLogic.startSession({ title: prompt.title(args), policies: prompt.policies }, { activate: false });
+        const payload = JSON.parse(response.content[0].text);
+        if (response.isError) {
+            throw new McpError(ErrorCode.InternalError, `Cannot start a session for prompt ${prompt.name}: ${payload.error}`);
+        }
+        return {
+            description: prompt.description,
+            messages: [{ role: "user", content: { type: "text", text: renderPrompt(prompt, args, payload.session_id) } }],
+        };
+    });
+
+    // Pushes resource notifications as the logic records thoughts, updates sessions and starts or closes them.
+    const reportFailure = (error: unknown) => logger.debug(`Resource notification not sent: ${error instanceof Error ? error.message : String(error)}`, { event: 'notification_failed' });
+    toolLogic.onChange((change) => {
+        if (change.type === 'sessions_changed' || change.type === 'branch_resolved' || (change.type === 'thought_recorded' && change.node.parentEdge === 'branch')) {
+            server.sendResourceListChanged().catch(reportFailure); // A session or branch resource appeared or changed state
+        }
+        if (change.type !== 'sessions_changed') {
+            const uris = change.type === 'thought_recorded'
+                ? changedResourceUris(change.session, change.node)
+                : change.type === 'branch_resolved'
+                    ? [sessionUri(change.session.id), branchUri(change.session.id, change.branchId)]
+                    : [sessionUri(change.session.id)]; // Status, goal progress or checkpoint of the session itself
+            uris
+                .filter(uri => subscriptions.has(uri))
+                .forEach(uri => server.sendResourceUpdated({ uri }).catch(reportFailure));
+        }
+    });
+
+    return server;
+}
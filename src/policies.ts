@@ -0,0 +1,332 @@
+import * as fs from 'node:fs';
+
+import { ThinkingSession, ThoughtData } from './better-thinking-tool.js';
+import { goalProgress } from './goal-tracker.js';
+import { unresolvedEntities } from './session-analysis.js';
+
+// --- Interfaces ---
+
+/** How a rule reacts when violated: ignore it, report a warning, or reject the step. */
+export type PolicySeverity = 'off' | 'warn' | 'error';
+
+export const POLICY_SEVERITIES: readonly PolicySeverity[] = ['off', 'warn', 'error'];
+
+/**
+ * Configuration of a single rule. `limit` is only used by rules that take a numeric threshold.
+ */
+export interface RuleConfig {
+    severity: PolicySeverity;
+    limit?: number;
+}
+
+/**
+ * Configuration of every guardrail rule, keyed by rule name.
+ */
+export interface PolicyConfig {
+    /** At most `limit` thoughts per session. */
+    maxThoughtsPerSession: RuleConfig;
+    /** Every thought must set `confidence_score`. */
+    requireConfidence: RuleConfig;
+    /** `thoughtNumber` must follow its parent thought or the previous thought of the session. */
+    sequentialThoughtNumbers: RuleConfig;
+    /** The session may not be concluded or closed while entities are still `unknown`/`uncertain`. */
+    noCloseWithUncertain: RuleConfig;
+    /** The session may not be concluded or closed while required sub-goals are still open or blocked. */
+    noConcludeWithOpenSubgoals: RuleConfig;
+    /** `thought` must be at least `limit` characters long. */
+    minThoughtLength: RuleConfig;
+    /** `thought` may be at most `limit` characters long. */
+    maxThoughtLength: RuleConfig;
+    /** `isRevision` should come with `revisesThought`. */
+    revisionNeedsTarget: RuleConfig;
+    /** `branchFromThought` should come with `branchId`. */
+    branchNeedsId: RuleConfig;
+    /** The deprecated `needsMoreThoughts` flag should not be used. */
+    noDeprecatedFields: RuleConfig;
+}
+
+export type PolicyRuleName = keyof PolicyConfig;
+
+/**
+ * Rule settings attached to a single session, e.g. by a reasoning prompt. Each setting holds only
+ * the fields that were given; they can only make the server's policy stricter (see `PolicyEngine.rulesFor`).
+ */
+export type SessionPolicyOverrides = Partial<Record<PolicyRuleName, Partial<RuleConfig>>>;
+
+/**
+ * A rule that a thought step (or a session close) violated.
+ */
+export interface PolicyViolation {
+    rule: PolicyRuleName;
+    severity: Exclude<PolicySeverity, 'off'>;
+    message: string;
+}
+
+/**
+ * Thrown when a step violates at least one rule configured as `error`.
+ * Carries every violation so the response can list them.
+ */
+export class PolicyError extends Error {
+    constructor(public readonly violations: PolicyViolation[]) {
+        super(`Rejected by policy: ${violations.filter(v => v.severity === 'error').map(v => v.message).join(' ')}`);
+        this.name = 'PolicyError';
+    }
+}
+
+// --- Defaults ---
+
+/**
+ * Defaults keep the historical behaviour: the consistency checks warn, everything else is off.
+ * Concluding with open sub-goals also warns; it only applies to sessions that declare goals.
+ */
+export const DEFAULT_POLICY_CONFIG: PolicyConfig = {
+    maxThoughtsPerSession: { severity: 'off', limit: 100 },
+    requireConfidence: { severity: 'off' },
+    sequentialThoughtNumbers: { severity: 'off' },
+    noCloseWithUncertain: { severity: 'off' },
+    noConcludeWithOpenSubgoals: { severity: 'warn' },
+    minThoughtLength: { severity: 'off', limit: 20 },
+    maxThoughtLength: { severity: 'off', limit: 4000 },
+    revisionNeedsTarget: { severity: 'warn' },
+    branchNeedsId: { severity: 'warn' },
+    noDeprecatedFields: { severity: 'warn' },
+};
+
+/** Rules whose `limit` is a lower bound, so a larger limit is stricter. For the others a smaller one is. */
+const LOWER_BOUND_RULES: readonly PolicyRuleName[] = ['minThoughtLength'];
+
+// --- Configuration Loading ---
+
+/**
+ * Applies one rule setting on top of a configuration, validating it.
+ * @param config The configuration to update in place.
+ * @param rule The rule name.
+ * @param setting The new severity and/or limit.
+ * @throws {Error} If the rule, severity or limit is invalid.
+ */
+function applyRuleSetting(config: PolicyConfig, rule: string, setting: Partial<RuleConfig>): void {
+    if (!(rule in config)) {
+        throw new Error(`Unknown policy rule "${rule}". Known rules: ${Object.keys(config).join(', ')}.`);
+    }
+    if (setting.severity !== undefined && !POLICY_SEVERITIES.includes(setting.severity)) {
+        throw new Error(`Invalid severity "${setting.severity}" for policy rule "${rule}"; use off, warn or error.`);
+    }
+    if (setting.limit !== undefined && (!Number.isInteger(setting.limit) || setting.limit < 1)) {
+        throw new Error(`Invalid limit "${setting.limit}" for policy rule "${rule}"; it must be a positive integer.`);
+    }
+    const current = config[rule as PolicyRuleName];
+    config[rule as PolicyRuleName] = {
+        severity: setting.severity ?? current.severity,
+        limit: setting.limit ?? current.limit,
+    };
+}
+
+/**
+ * Parses a set of rule settings, each either a bare severity or `{ severity, limit }`.
+ * Only the given fields are kept; where they are applied decides what the others default to.
+ * @param rules Object mapping rule names to settings.
+ * @returns The validated setting of every rule that was set.
+ * @throws {Error} If the input is not an object, or any rule, severity or limit is invalid.
+ */
+export function parsePolicyRules(rules: unknown): SessionPolicyOverrides {
+    if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+        throw new Error('Invalid policy rules: expected an object mapping rule names to a severity or { severity, limit }.');
+    }
+    const parsed: SessionPolicyOverrides = {};
+    for (const [rule, setting] of Object.entries(rules)) {
+        if (typeof setting !== 'string' && (typeof setting !== 'object' || setting === null)) {
+            throw new Error(`Invalid setting for policy rule "${rule}"; use a severity or { severity, limit }.`);
+        }
+        const { severity, limit } = typeof setting === 'string' ? { severity: setting as PolicySeverity, limit: undefined } : setting as Partial<RuleConfig>;
+        applyRuleSetting(structuredClone(DEFAULT_POLICY_CONFIG), rule, { severity, limit }); // Validates only
+        parsed[rule as PolicyRuleName] = { ...(severity !== undefined ? { severity } : {}), ...(limit !== undefined ? { limit } : {}) };
+    }
+    return parsed;
+}
+
+/**
+ * Parses a command-line rule override of the form `rule=severity[:limit]`, e.g. `maxThoughtsPerSession=error:50`.
+ * @param override The raw override string.
+ * @returns The rule name and its setting.
+ * @throws {Error} If the override is malformed.
+ */
+export function parsePolicyOverride(override: string): { rule: string; setting: Partial<RuleConfig> } {
+    const match = /^(\w+)=(\w+)(?::(\d+))?$/.exec(override.trim());
+    if (!match) {
+        throw new Error(`Invalid policy override "${override}"; expected rule=severity[:limit].`);
+    }
+    return {
+        rule: match[1],
+        setting: { severity: match[2] as PolicySeverity, limit: match[3] === undefined ? undefined : Number(match[3]) },
+    };
+}
+
+/**
+ * Builds the policy configuration from the defaults, an optional JSON file and command-line overrides (applied last).
+ * The file holds `{ "rules": { "<rule>": { "severity": "...", "limit": n } } }`; a bare severity string is also accepted per rule.
+ * @param options Optional policy file path and `rule=severity[:limit]` overrides.
+ * @returns The merged configuration.
+ * @throws {Error} If the file cannot be read or any setting is invalid.
+ */
+export function loadPolicyConfig(options: { file?: string; overrides?: string[] } = {}): PolicyConfig {
+    const config: PolicyConfig = structuredClone(DEFAULT_POLICY_CONFIG);
+
+    if (options.file) {
+        let parsed: { rules?: unknown };
+        try {
+            parsed = JSON.parse(fs.readFileSync(options.file, 'utf8'));
+        } catch (error) {
+            throw new Error(`Cannot read policy file ${options.file}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        for (const [rule, setting] of Object.entries(parsePolicyRules(parsed.rules ?? {}))) {
+            applyRuleSetting(config, rule, setting);
+        }
+    }
+
+    for (const override of options.overrides ?? []) {
+        const { rule, setting } = parsePolicyOverride(override);
+        applyRuleSetting(config, rule, setting);
+    }
+    return config;
+}
+
+// --- Engine ---
+
+/**
+ * Evaluates the configured guardrail rules against thought steps and session closes.
+ */
+export class PolicyEngine {
+    constructor(private readonly config: PolicyConfig = DEFAULT_POLICY_CONFIG) {}
+
+    /** Returns the active configuration. */
+    public getConfig(): PolicyConfig {
+        return this.config;
+    }
+
+    /**
+     * Returns the rules in effect for a session. A session's own settings are merged per field and only
+     * apply where they are stricter than the server's, so a session can never relax the configured policy:
+     * the higher severity wins, and of two limits the stricter one. A limit the session sets for a rule
+     * the server has switched off applies as it is.
+     * @param session The session whose overrides to apply.
+     */
+    public rulesFor(session: ThinkingSession): PolicyConfig {
+        const rules: PolicyConfig = { ...this.config };
+        for (const [rule, setting] of Object.entries(session.policies ?? {}) as Array<[PolicyRuleName, Partial<RuleConfig>]>) {
+            const server = this.config[rule];
+            const severity = setting.severity !== undefined && POLICY_SEVERITIES.indexOf(setting.severity) > POLICY_SEVERITIES.indexOf(server.severity)
+                ? setting.severity
+                : server.severity;
+            let limit = server.limit;
+            if (setting.limit !== undefined) {
+                const stricter = LOWER_BOUND_RULES.includes(rule) ? Math.max : Math.min;
+                limit = server.severity === 'off' || server.limit === undefined ? setting.limit : stricter(server.limit, setting.limit);
+            }
+            rules[rule] = { severity, limit };
+        }
+        return rules;
+    }
+
+    /**
+     * Records a violation of `rule` unless the rule is switched off.
+     */
+    private report(violations: PolicyViolation[], rules: PolicyConfig, rule: PolicyRuleName, message: string): void {
+        const { severity } = rules[rule];
+        if (severity !== 'off') {
+            violations.push({ rule, severity, message });
+        }
+    }
+
+    /**
+     * Checks that the remaining unknowns allow the session to be concluded.
+     */
+    private checkUnresolved(violations: PolicyViolation[], rules: PolicyConfig, thoughts: ThoughtData[], action: string): void {
+        const unresolved = unresolvedEntities(thoughts);
+        if (unresolved.length > 0) {
+            const list = unresolved.map(entry => `"${entry.entity}" (${entry.status})`).join(', ');
+            this.report(violations, rules, 'noCloseWithUncertain', `Cannot ${action} while entities remain unresolved: ${list}. Re-assess them first.`);
+        }
+    }
+
+    /**
+     * Checks that no required sub-goal is left open when the session is concluded.
+     */
+    private checkOpenSubgoals(violations: PolicyViolation[], rules: PolicyConfig, session: ThinkingSession, thoughts: ThoughtData[], action: string): void {
+        if (!session.goals) {
+            return;
+        }
+        const progress = goalProgress(session.goals, thoughts, session.branchResolutions);
+        const open = progress.subgoals.filter(subgoal => progress.open_required_subgoals.includes(subgoal.id));
+        if (open.length > 0) {
+            const list = open.map(subgoal => `\`${subgoal.id}\` "${subgoal.description}" (${subgoal.status})`).join(', ');
+            this.report(violations, rules, 'noConcludeWithOpenSubgoals', `Cannot ${action} while required sub-goals are open: ${list}. Achieve or abandon them first.`);
+        }
+    }
+
+    /**
+     * Evaluates every rule against a thought about to be recorded.
+     * @param session The session the thought is for.
+     * @param thought The validated thought.
+     * @param raw The raw tool arguments, for checks on fields the validated thought drops.
+     * @param parent The thought this one attaches to in the session graph, if any.
+     * @returns Every violation; the caller rejects the step if any has severity `error`.
+     */
+    public checkThought(session: ThinkingSession, thought: ThoughtData, raw: Record<string, unknown>, parent?: ThoughtData): PolicyViolation[] {
+        const violations: PolicyViolation[] = [];
+        const rules = this.rulesFor(session);
+        const history = session.thoughtHistory;
+
+        const maxThoughts = rules.maxThoughtsPerSession.limit!;
+        if (history.length + 1 > maxThoughts) {
+            this.report(violations, rules, 'maxThoughtsPerSession', `Session \`${session.id}\` has reached its limit of ${maxThoughts} thoughts.`);
+        }
+        if (thought.confidence_score === undefined) {
+            this.report(violations, rules, 'requireConfidence', '`confidence_score` is required for every thought.');
+        }
+
+        const previous = history[history.length - 1];
+        const expected = [parent ? parent.thoughtNumber + 1 : 1, previous ? previous.thoughtNumber + 1 : 1];
+        if (!expected.includes(thought.thoughtNumber)) {
+            this.report(violations, rules, 'sequentialThoughtNumbers', `thoughtNumber ${thought.thoughtNumber} is out of sequence; expected ${[...new Set(expected)].join(' or ')}.`);
+        }
+
+        if (!thought.nextThoughtNeeded) {
+            this.checkUnresolved(violations, rules, [...history, thought], 'conclude the session');
+            this.checkOpenSubgoals(violations, rules, session, [...history, thought], 'conclude the session');
+        }
+
+        const length = thought.thought.trim().length;
+        const minLength = rules.minThoughtLength.limit!;
+        const maxLength = rules.maxThoughtLength.limit!;
+        if (length < minLength) {
+            this.report(violations, rules, 'minThoughtLength', `\`thought\` is ${length} characters; at least ${minLength} are required.`);
+        }
+        if (length > maxLength) {
+            this.report(violations, rules, 'maxThoughtLength', `\`thought\` is ${length} characters; at most ${maxLength} are allowed.`);
+        }
+
+        if (thought.isRevision && thought.revisesThought === undefined) {
+            this.report(violations, rules, 'revisionNeedsTarget', '`isRevision` is true but `revisesThought` is missing. Revision context might be unclear.');
+        }
+        if (thought.branchFromThought !== undefined && thought.branchId === undefined) {
+            this.report(violations, rules, 'branchNeedsId', '`branchFromThought` is set but `branchId` is missing. Branch cannot be tracked properly.');
+        }
+        if (raw.needsMoreThoughts !== undefined) {
+            this.report(violations, rules, 'noDeprecatedFields', '`needsMoreThoughts` is deprecated. Use `nextThoughtNeeded` for flow control.');
+        }
+        return violations;
+    }
+
+    /**
+     * Evaluates the rules that apply when a session is closed.
+     * @param session The session about to be closed.
+     * @returns Every violation; the caller refuses to close if any has severity `error`.
+     */
+    public checkClose(session: ThinkingSession): PolicyViolation[] {
+        const violations: PolicyViolation[] = [];
+        const rules = this.rulesFor(session);
+        this.checkUnresolved(violations, rules, session.thoughtHistory, 'close the session');
+        this.checkOpenSubgoals(violations, rules, session, session.thoughtHistory, 'close the session');
+        return violations;
+    }
+}
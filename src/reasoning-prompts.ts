@@ -0,0 +1,184 @@
+import { SessionPolicyOverrides } from './policies.js';
+
+// --- Interfaces ---
+
+/**
+ * An argument the caller fills in when getting a prompt.
+ */
+export interface PromptArgument {
+    name: string;
+    description: string;
+    required: boolean;
+}
+
+/**
+ * A guided reasoning mode, advertised as an MCP prompt. Getting the prompt starts a session (without
+ * making it active) with the mode's title and policy defaults, and returns instructions for working through it.
+ */
+export interface ReasoningPrompt {
+    name: string;
+    description: string;
+    arguments: PromptArgument[];
+    /** Suggested `totalThoughts` for the first thought. */
+    totalThoughts: number;
+    /** Guardrail settings for the session; they only apply where stricter than the server's policy. */
+    policies: SessionPolicyOverrides;
+    /** Builds the session title from the prompt arguments. */
+    title(args: Record<string, string>): string;
+    /** Builds the mode-specific steps from the prompt arguments. */
+    steps(args: Record<string, string>): string[];
+}
+
+// --- Prompts ---
+
+/**
+ * The reasoning modes offered through `prompts/list` and `prompts/get`.
+ */
+export const REASONING_PROMPTS: ReasoningPrompt[] = [
+    {
+        name: 'root_cause_analysis',
+        description: 'Debug a failure: gather symptoms, list candidate causes, test them against the evidence and settle on the root cause and a fix.',
+        arguments: [
+            { name: 'problem', description: 'The failure or bug to explain', required: true },
+            { name: 'symptoms', description: 'Observed symptoms, error messages or logs', required: false },
+            { name: 'context', description: 'Recent changes, environment or other relevant context', required: false },
+        ],
+        totalThoughts: 8,
+        policies: {
+            requireConfidence: { severity: 'warn' },
+            revisionNeedsTarget: { severity: 'error' },
+        },
+        title: args => `Root cause: ${args.problem}`,
+        steps: args => [
+            `Restate the problem${args.symptoms ? ' and the observed symptoms' : ''} precisely, separating facts from assumptions. Record each assumption in \`knowledge_assessment\`.`,
+            'List candidate causes. For each, note what evidence would confirm or rule it out.',
+            'Test the candidates one at a time against the evidence. When new evidence contradicts an earlier thought, revise it with `isRevision` and `revisesThought` instead of silently changing course.',
+            'Trace the surviving cause back until you reach the earliest point where a change would have prevented the failure. That is the root cause.',
+            'Conclude with the root cause, the fix, and how to verify it. Give a `confidence_score` on every thought.',
+        ],
+    },
+    {
+        name: 'compare_hypotheses',
+        description: 'Weigh competing hypotheses side by side, one branch each, and settle on a decision by adopting the winning branch.',
+        arguments: [
+            { name: 'question', description: 'The question or decision the hypotheses answer', required: true },
+            { name: 'hypotheses', description: 'The hypotheses to compare, separated by semicolons or new lines', required: false },
+        ],
+        totalThoughts: 10,
+        policies: {
+            branchNeedsId: { severity: 'error' },
+            requireConfidence: { severity: 'warn' },
+        },
+        title: args => `Compare hypotheses: ${args.question}`,
+        steps: args => {
+            const hypotheses = (args.hypotheses ?? '').split(/[;\n]/).map(h => h.trim()).filter(Boolean);
+            return [
+                'In thought 1, frame the question and the criteria a good answer must meet.',
+                hypotheses.length > 0
+                    ? `Explore each hypothesis on its own branch from thought 1 (\`branchFromThought: 1\`): ${hypotheses.map((h, i) => `\`h${i + 1}\` for "${h}"`).join(', ')}.`
+                    : 'Propose two to four hypotheses, and explore each on its own branch from thought 1 (`branchFromThought: 1`, `branchId` `h1`, `h2`, ...).',
+                'On each branch, gather the evidence for and against the hypothesis and end with a `confidence_score` for it.',
+                'Compare the branches pairwise with `compare_branches`, then, in a new main-line thought (no `branchId`), weigh them against the criteria and state which hypothesis wins and why.',
+                'Record the decision: `adopt_branch` for the winning branch and `abandon_branch`, with a reason, for every other one.',
+            ];
+        },
+    },
+    {
+        name: 'estimation',
+        description: 'Estimate a quantity by decomposition, with an explicit knowledge check on every input.',
+        arguments: [
+            { name: 'quantity', description: 'The quantity to estimate', required: true },
+            { name: 'constraints', description: 'Known facts, bounds or the precision needed', required: false },
+        ],
+        totalThoughts: 6,
+        policies: {
+            requireConfidence: { severity: 'error' },
+            noCloseWithUncertain: { severity: 'warn' },
+        },
+        title: args => `Estimate: ${args.quantity}`,
+        steps: args => [
+            `Decompose the quantity into factors you can estimate separately${args.constraints ? ', using the given constraints' : ''}.`,
+            'For every factor, record a `knowledge_assessment` entry: `known` if you can cite it, `uncertain` if you can bound it, `unknown` if you are guessing.',
+            'Give a low, likely and high value for each uncertain factor, and combine them into a range.',
+            'Before concluding, re-assess every `unknown` or `uncertain` factor: resolve it, bound it tighter, or state why it cannot be.',
+            'Conclude with the estimate, its range and the factor that dominates the uncertainty. Give a `confidence_score` on every thought.',
+        ],
+    },
+    {
+        name: 'pre_mortem',
+        description: 'Assume a plan has failed, work out the most plausible reasons, and strengthen the plan against them.',
+        arguments: [
+            { name: 'plan', description: 'The plan, project or decision to stress-test', required: true },
+            { name: 'horizon', description: 'When the failure is discovered, e.g. "six months after launch"', required: false },
+        ],
+        totalThoughts: 7,
+        policies: {
+            requireConfidence: { severity: 'warn' },
+            noCloseWithUncertain: { severity: 'warn' },
+        },
+        title: args => `Pre-mortem: ${args.plan}`,
+        steps: args => [
+            `Assume it is ${args.horizon ?? 'some time from now'} and the plan has clearly failed. Describe the failure concretely.`,
+            'Write down the failure stories that could have led there. Consider technical, organizational, external and timing causes. Explore a story on its own branch when it needs more than one thought.',
+            'Rate each story\'s likelihood and impact, using `confidence_score` for the likelihood. Record unverified assumptions in `knowledge_assessment`.',
+            'For the top risks, propose mitigations or early warning signs, and revise earlier thoughts if a mitigation changes the picture.',
+            'Conclude with the revised plan and the risks you accept.',
+        ],
+    },
+];
+
+// --- Rendering ---
+
+/**
+ * Looks up a prompt by name.
+ * @param name The prompt name from `prompts/get`.
+ */
+export function findPrompt(name: string): ReasoningPrompt | undefined {
+    return REASONING_PROMPTS.find(prompt => prompt.name === name);
+}
+
+/**
+ * Checks that every required argument is present and non-empty.
+ * @param prompt The prompt being requested.
+ * @param args The arguments from `prompts/get`.
+ * @returns The arguments, trimmed.
+ * @throws {Error} If a required argument is missing or an unknown argument is given.
+ */
+export function validatePromptArguments(prompt: ReasoningPrompt, args: Record<string, string> = {}): Record<string, string> {
+    const known = new Set(prompt.arguments.map(argument => argument.name));
+    const unknown = Object.keys(args).filter(name => !known.has(name));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown argument(s) for prompt \`${prompt.name}\`: ${unknown.join(', ')}.`);
+    }
+    const trimmed = Object.fromEntries(Object.entries(args).map(([name, value]) => [name, String(value).trim()]).filter(([, value]) => value));
+    const missing = prompt.arguments.filter(argument => argument.required && !trimmed[argument.name]);
+    if (missing.length > 0) {
+        throw new Error(`Missing required argument(s) for prompt \`${prompt.name}\`: ${missing.map(argument => argument.name).join(', ')}.`);
+    }
+    return trimmed;
+}
+
+/**
+ * Builds the user message for a prompt whose session has been started.
+ * @param prompt The prompt being requested.
+ * @param args The validated arguments.
+ * @param sessionId The session started for it.
+ */
+export function renderPrompt(prompt: ReasoningPrompt, args: Record<string, string>, sessionId: string): string {
+    const inputs = prompt.arguments
+        .filter(argument => args[argument.name])
+        .map(argument => `- **${argument.name}**: ${args[argument.name]}`);
+    const policies = Object.entries(prompt.policies).map(([rule, setting]) => `\`${rule}\` (${setting!.severity})`);
+
+    return [
+        `${prompt.description}`,
+        '',
+        ...inputs,
+        '',
+        `Use the \`better_thinking\` tool in session \`${sessionId}\`, which has been started for this task. Pass \`sessionId: "${sessionId}"\` on every tool call, or make it the active session with \`switch_thinking_session\` first. Begin with \`thoughtNumber: 1\` and \`totalThoughts: ${prompt.totalThoughts}\`, and adjust the total as you learn more.`,
+        ...(policies.length > 0 ? [`The session enforces these guardrails: ${policies.join(', ')}.`] : []),
+        '',
+        'Work through these steps:',
+        ...prompt.steps(args).map((step, index) => `${index + 1}. ${step}`),
+    ].join('\n');
+}
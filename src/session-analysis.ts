@@ -0,0 +1,221 @@
+import { KnowledgeAssessment, ThinkingSession, ThoughtData } from './better-thinking-tool.js';
+import { ThoughtNode } from './thought-graph.js';
+
+// --- Thresholds ---
+
+/** A confidence fall of at least this much from a thought's nearest scored ancestor counts as a sharp drop. */
+const SHARP_DROP = 0.3;
+/** Confidence below this is considered low when the session concludes. */
+const LOW_CONFIDENCE = 0.5;
+/** Least-squares slope (per scored thought) beyond which the confidence trend is rising or falling. */
+const TREND_SLOPE = 0.02;
+/** A branch is abandoned once this many thoughts were recorded elsewhere after its last thought. */
+const STALE_BRANCH_THOUGHTS = 2;
+/** This many upward `totalThoughts` revisions count as repeated drift. */
+const REPEATED_DRIFT = 3;
+
+// --- Interfaces ---
+
+/**
+ * Quality analysis of a session's reasoning. Field names match the tool response payload.
+ */
+export interface SessionAnalysis {
+    confidence: {
+        /** Confidence of every scored thought, in history order, with the line it was recorded on. */
+        trajectory: Array<{ position: number; thought_number: number; line: string; confidence: number }>;
+        /** Trend along the path from the root to the latest thought, so thoughts on other lines do not count. */
+        trend: 'rising' | 'falling' | 'flat' | 'insufficient_data';
+        /** Scored thoughts whose confidence fell by at least `SHARP_DROP` from their nearest scored ancestor in the graph. */
+        sharp_drops: Array<{ from_thought: number; to_thought: number; from: number; to: number }>;
+    };
+    /** Entities whose latest assessment is still `unknown` or `uncertain`. */
+    unresolved_entities: Array<{ entity: string; status: KnowledgeAssessment['status']; first_flagged_in: number; last_assessed_in: number }>;
+    /** Revisions that ended up less confident than the thought they revised. */
+    confidence_lowering_revisions: Array<{ thought_number: number; revises: number; from: number; to: number }>;
+    /** Unmerged branches the reasoning moved on from without concluding them. */
+    abandoned_branches: Array<{ branch_id: string; last_thought: number; thoughts_since: number }>;
+    total_thoughts_drift: {
+        initial_estimate: number | null;
+        current_estimate: number | null;
+        /** Every time a thought raised the estimate over the thought it continues from (its parent in the graph). */
+        increases: Array<{ thought_number: number; from: number; to: number }>;
+        repeated: boolean;
+    };
+    /** Set when the session concluded (`nextThoughtNeeded=false`) despite low confidence or unknowns. */
+    premature_conclusion: { thought_number: number; reasons: string[] } | null;
+    /** Human-readable summary of every issue found. */
+    warnings: string[];
+}
+
+// --- Analysis ---
+
+/**
+ * Classifies the least-squares slope of the confidence trajectory.
+ */
+function confidenceTrend(values: number[]): SessionAnalysis['confidence']['trend'] {
+    if (values.length < 3) {
+        return 'insufficient_data';
+    }
+    const meanX = (values.length - 1) / 2;
+    const meanY = values.reduce((sum, v) => sum + v, 0) / values.length;
+    let numerator = 0;
+    let denominator = 0;
+    values.forEach((v, x) => {
+        numerator += (x - meanX) * (v - meanY);
+        denominator += (x - meanX) ** 2;
+    });
+    const slope = numerator / denominator;
+    return slope > TREND_SLOPE ? 'rising' : slope < -TREND_SLOPE ? 'falling' : 'flat';
+}
+
+/**
+ * Folds knowledge assessments across thoughts into the latest status of every entity.
+ * Entity names are matched case-insensitively; the first spelling is kept.
+ * @param thoughts Thoughts in the order they were recorded.
+ * @returns One entry per entity, in the order entities were first assessed.
+ */
+export function consolidateKnowledge(thoughts: ThoughtData[]): Array<{ entity: string; status: KnowledgeAssessment['status']; first_assessed_in: number; last_assessed_in: number }> {
+    const entities = new Map<string, { entity: string; status: KnowledgeAssessment['status']; first_assessed_in: number; last_assessed_in: number }>();
+    for (const thought of thoughts) {
+        for (const { entity, status } of thought.knowledge_assessment ?? []) {
+            const key = entity.toLowerCase();
+            const existing = entities.get(key);
+            entities.set(key, {
+                entity: existing?.entity ?? entity,
+                status,
+                first_assessed_in: existing?.first_assessed_in ?? thought.thoughtNumber,
+                last_assessed_in: thought.thoughtNumber,
+            });
+        }
+    }
+    return [...entities.values()];
+}
+
+/**
+ * Returns the entities whose latest status is still `unknown` or `uncertain`.
+ * @param thoughts Thoughts in the order they were recorded.
+ */
+export function unresolvedEntities(thoughts: ThoughtData[]): SessionAnalysis['unresolved_entities'] {
+    return consolidateKnowledge(thoughts)
+        .filter(entry => entry.status !== 'known')
+        .map(({ entity, status, first_assessed_in, last_assessed_in }) => ({ entity, status, first_flagged_in: first_assessed_in, last_assessed_in }));
+}
+
+/**
+ * Returns the closest node above `id` in the graph that carries a confidence score, if any.
+ */
+function nearestScoredAncestor(session: ThinkingSession, id: number): ThoughtNode | undefined {
+    let node = session.graph.getNode(id);
+    while (node && node.parentId !== null) {
+        node = session.graph.getNode(node.parentId);
+        if (node?.thought.confidence_score !== undefined) {
+            return node;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Analyzes the quality of a session's reasoning from its confidence scores,
+ * knowledge assessments, revisions, branches and thought estimates. Confidence and estimate changes
+ * are measured along the graph, from a thought to its ancestors, so interleaved branches are never
+ * compared with each other.
+ * @param session The session to analyze.
+ * @returns The analysis, with a `warnings` summary of every issue found.
+ */
+export function analyzeSession(session: ThinkingSession): SessionAnalysis {
+    const nodes = session.graph.getNodes();
+    const warnings: string[] = [];
+
+    // 1. Confidence trajectory, trend and sharp drops
+    const scored = nodes.filter(node => node.thought.confidence_score !== undefined);
+    const trajectory = scored.map(node => ({ position: node.id, thought_number: node.thought.thoughtNumber, line: node.line, confidence: node.thought.confidence_score! }));
+    const sharpDrops: SessionAnalysis['confidence']['sharp_drops'] = [];
+    for (const node of scored) {
+        const previous = nearestScoredAncestor(session, node.id);
+        const [from, to] = [previous?.thought.confidence_score, node.thought.confidence_score!];
+        if (previous && from !== undefined && from - to >= SHARP_DROP) {
+            sharpDrops.push({ from_thought: previous.thought.thoughtNumber, to_thought: node.thought.thoughtNumber, from, to });
+            warnings.push(`Confidence dropped sharply from ${from.toFixed(2)} (thought ${previous.thought.thoughtNumber}) to ${to.toFixed(2)} (thought ${node.thought.thoughtNumber}).`);
+        }
+    }
+    const latestPath = nodes.length > 0 ? session.graph.ancestors(nodes[nodes.length - 1].id) : [];
+    const trend = confidenceTrend(latestPath.filter(node => node.thought.confidence_score !== undefined).map(node => node.thought.confidence_score!));
+    if (trend === 'falling') {
+        warnings.push('Confidence is trending down over the session.');
+    }
+
+    // 2. Entities never re-assessed as known
+    const unresolved = unresolvedEntities(nodes.map(node => node.thought));
+    unresolved.forEach(entry => warnings.push(`Entity "${entry.entity}" is still ${entry.status} (last assessed in thought ${entry.last_assessed_in}).`));
+
+    // 3. Revisions that lowered confidence
+    const loweringRevisions: SessionAnalysis['confidence_lowering_revisions'] = [];
+    for (const node of nodes) {
+        const revised = session.graph.getNode(session.graph.outgoing(node.id, 'revision')[0]?.to ?? 0);
+        const [before, after] = [revised?.thought.confidence_score, node.thought.confidence_score];
+        if (revised && before !== undefined && after !== undefined && after < before) {
+            loweringRevisions.push({ thought_number: node.thought.thoughtNumber, revises: revised.thought.thoughtNumber, from: before, to: after });
+            warnings.push(`Revision ${node.thought.thoughtNumber} lowered confidence in thought ${revised.thought.thoughtNumber} from ${before.toFixed(2)} to ${after.toFixed(2)}.`);
+        }
+    }
+
+    // 4. Branches left behind without being merged, concluded or explicitly resolved
+    const abandoned: SessionAnalysis['abandoned_branches'] = [];
+    for (const branchId of Object.keys(session.branches).filter(branchId => !session.branchResolutions[branchId])) {
+        const tipId = session.graph.getLineTip(branchId)!;
+        const tip = session.graph.getNode(tipId)!;
+        const merged = nodes.some(node => node.line === branchId && session.graph.outgoing(node.id, 'merge').length > 0);
+        const thoughtsSince = nodes.length - tipId;
+        if (!merged && tip.thought.nextThoughtNeeded && thoughtsSince >= STALE_BRANCH_THOUGHTS) {
+            abandoned.push({ branch_id: branchId, last_thought: tip.thought.thoughtNumber, thoughts_since: thoughtsSince });
+            warnings.push(`Branch "${branchId}" was left unfinished after thought ${tip.thought.thoughtNumber} (${thoughtsSince} thoughts since, never merged).`);
+        }
+    }
+
+    // 5. Upward drift of the totalThoughts estimate
+    const increases: SessionAnalysis['total_thoughts_drift']['increases'] = [];
+    for (const node of nodes.filter(node => node.parentId !== null)) {
+        const [from, to] = [session.graph.getNode(node.parentId!)!.thought.totalThoughts, node.thought.totalThoughts];
+        if (to > from) {
+            increases.push({ thought_number: node.thought.thoughtNumber, from, to });
+        }
+    }
+    const repeatedDrift = increases.length >= REPEATED_DRIFT;
+    if (repeatedDrift) {
+        warnings.push(`The totalThoughts estimate was raised ${increases.length} times (from ${nodes[0].thought.totalThoughts} to ${nodes[nodes.length - 1].thought.totalThoughts}); the reasoning may be stalling.`);
+    }
+
+    // 6. Concluding despite low confidence or unresolved unknowns
+    let prematureConclusion: SessionAnalysis['premature_conclusion'] = null;
+    const last = nodes[nodes.length - 1];
+    if (last && !last.thought.nextThoughtNeeded) {
+        const reasons: string[] = [];
+        const finalConfidence = last.thought.confidence_score;
+        if (finalConfidence !== undefined && finalConfidence < LOW_CONFIDENCE) {
+            reasons.push(`final confidence is ${finalConfidence.toFixed(2)}`);
+        }
+        if (unresolved.length > 0) {
+            reasons.push(`${unresolved.length} entit${unresolved.length === 1 ? 'y is' : 'ies are'} still unknown or uncertain`);
+        }
+        if (reasons.length > 0) {
+            prematureConclusion = { thought_number: last.thought.thoughtNumber, reasons };
+            warnings.push(`Concluded at thought ${last.thought.thoughtNumber} although ${reasons.join(' and ')}.`);
+        }
+    }
+
+    return {
+        confidence: { trajectory, trend, sharp_drops: sharpDrops },
+        unresolved_entities: unresolved,
+        confidence_lowering_revisions: loweringRevisions,
+        abandoned_branches: abandoned,
+        total_thoughts_drift: {
+            initial_estimate: nodes[0]?.thought.totalThoughts ?? null,
+            current_estimate: last?.thought.totalThoughts ?? null,
+            increases,
+            repeated: repeatedDrift,
+        },
+        premature_conclusion: prematureConclusion,
+        warnings,
+    };
+}
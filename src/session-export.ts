@@ -0,0 +1,275 @@
+import { ThinkingSession, ThoughtData } from './better-thinking-tool.js';
+import { BranchResolution, parseBranchResolutions } from './branch-lifecycle.js';
+import { declareGoals, SessionGoals } from './goal-tracker.js';
+import { parsePolicyRules, SessionPolicyOverrides } from './policies.js';
+import { MAIN_LINE, ThoughtNode } from './thought-graph.js';
+
+// --- Constants ---
+
+/** Identifies documents produced by `renderSession(..., 'json')`. */
+export const SESSION_EXPORT_SCHEMA = 'better-thinking-session';
+/** Bumped whenever the JSON export changes incompatibly. */
+export const SESSION_EXPORT_VERSION = 1;
+
+/** The formats a session can be exported as. */
+export const EXPORT_FORMATS = ['mermaid', 'dot', 'markdown', 'json'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/** Maximum characters of thought text shown in diagram node labels. */
+const LABEL_LENGTH = 60;
+/** Timestamps in an export, as written by `Date.prototype.toISOString`. */
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// --- Interfaces ---
+
+/**
+ * Versioned JSON representation of a session. Thoughts are listed in history order,
+ * so replaying them through `better_thinking` reconstructs the same graph.
+ */
+export interface SessionExport {
+    schema: typeof SESSION_EXPORT_SCHEMA;
+    version: number;
+    exportedAt: string;
+    session: {
+        id: string;
+        title?: string;
+        createdAt: string;
+        closedAt?: string;
+        policies?: SessionPolicyOverrides;
+        goals?: SessionGoals;
+        /** Abandoned and adopted branches. Each applies after the first `position` thoughts when replayed. */
+        branchResolutions?: Record<string, BranchResolution>;
+    };
+    thoughts: ThoughtData[];
+}
+
+// --- Helper Functions ---
+
+/**
+ * Shortens thought text to a single line for diagram labels.
+ */
+function summarize(text: string): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > LABEL_LENGTH ? `${singleLine.slice(0, LABEL_LENGTH - 1)}…` : singleLine;
+}
+
+/**
+ * Short type marker for a node: revision, merge, branch start or plain thought.
+ */
+function nodeKind(node: ThoughtNode): string {
+    if (node.thought.mergeIntoThought !== undefined) {
+        return 'Merge';
+    }
+    if (node.thought.isRevision) {
+        return 'Revision';
+    }
+    return node.parentEdge === 'branch' ? 'Branch' : 'Thought';
+}
+
+/**
+ * Plain-text label for a node: kind, number, line and a shortened thought.
+ */
+function nodeLabel(node: ThoughtNode): string {
+    const line = node.line === MAIN_LINE ? '' : ` [${node.line}]`;
+    const confidence = node.thought.confidence_score !== undefined ? ` (${node.thought.confidence_score.toFixed(2)})` : '';
+    return `${nodeKind(node)} ${node.thought.thoughtNumber}${line}${confidence}: ${summarize(node.thought.thought)}`;
+}
+
+// --- Renderers ---
+
+/**
+ * Renders the session graph as a Mermaid flowchart.
+ */
+function toMermaid(session: ThinkingSession): string {
+    const escape = (text: string) => text.replace(/"/g, '#quot;');
+    const lines = ['flowchart TD'];
+    for (const node of session.graph.getNodes()) {
+        lines.push(`    n${node.id}["${escape(nodeLabel(node))}"]`);
+    }
+    for (const edge of session.graph.getEdges()) {
+        const arrow = {
+            sequence: '-->',
+            branch: `-->|branch ${escape(session.graph.getNode(edge.to)!.line)}|`,
+            revision: '-.->|revises|',
+            merge: '==>|merges into|',
+        }[edge.type];
+        lines.push(`    n${edge.from} ${arrow} n${edge.to}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Renders the session graph as Graphviz DOT, with one cluster per branch.
+ */
+function toDot(session: ThinkingSession): string {
+    const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const nodes = session.graph.getNodes();
+    const lines = [`digraph ${quote(session.id)} {`, '    rankdir=TB;', '    node [shape=box];'];
+
+    for (const node of nodes.filter(node => node.line === MAIN_LINE)) {
+        lines.push(`    n${node.id} [label=${quote(nodeLabel(node))}];`);
+    }
+    for (const branchId of Object.keys(session.branches)) {
+        lines.push(`    subgraph ${quote(`cluster_${branchId}`)} {`, `        label=${quote(`branch ${branchId}`)};`);
+        for (const node of nodes.filter(node => node.line === branchId)) {
+            lines.push(`        n${node.id} [label=${quote(nodeLabel(node))}];`);
+        }
+        lines.push('    }');
+    }
+    for (const edge of session.graph.getEdges()) {
+        const style = {
+            sequence: '',
+            branch: ' [label="branch"]',
+            revision: ' [style=dashed, label="revises"]',
+            merge: ' [style=bold, label="merges into"]',
+        }[edge.type];
+        lines.push(`    n${edge.from} -> n${edge.to}${style};`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+}
+
+/**
+ * Renders a readable Markdown transcript, including confidence and knowledge assessments.
+ */
+function toMarkdown(session: ThinkingSession): string {
+    const lines = [`# Reasoning session \`${session.id}\`${session.title ? `: ${session.title}` : ''}`, ''];
+    lines.push(`- Started: ${session.createdAt}`);
+    lines.push(`- Status: ${session.closedAt ? `closed ${session.closedAt}` : 'open'}`);
+    lines.push(`- Thoughts: ${session.thoughtHistory.length}`);
+    const branchIds = Object.keys(session.branches);
+    if (branchIds.length > 0) {
+        lines.push(`- Branches: ${branchIds.map(id => `\`${id}\``).join(', ')}`);
+    }
+
+    for (const node of session.graph.getNodes()) {
+        const { thought, thoughtNumber, totalThoughts, confidence_score, knowledge_assessment, revisesThought, branchFromThought, mergeIntoThought } = node.thought;
+        const context = [
+            node.line !== MAIN_LINE ? `branch \`${node.line}\`${node.parentEdge === 'branch' ? ` from thought ${branchFromThought}` : ''}` : '',
+            revisesThought !== undefined ? `revises thought ${revisesThought}` : '',
+            mergeIntoThought !== undefined ? `merges into thought ${mergeIntoThought}` : '',
+        ].filter(Boolean).join(', ');
+
+        lines.push('', `## ${nodeKind(node)} ${thoughtNumber}/${totalThoughts}${context ? ` (${context})` : ''}`, '', thought);
+        if (confidence_score !== undefined) {
+            lines.push('', `**Confidence:** ${confidence_score.toFixed(2)}`);
+        }
+        if (knowledge_assessment?.length) {
+            lines.push('', '**Knowledge assessment:**', '');
+            knowledge_assessment.forEach(ka => lines.push(`- ${ka.entity}: *${ka.status}*`));
+        }
+        const { goal, subgoal, method, alternatives, concepts, evidence } = node.thought;
+        const details = [
+            goal ? `- Goal: ${goal.description} (*${goal.status}*)` : '',
+            subgoal ? `- Sub-goal: ${subgoal.description} (*${subgoal.status}*)` : '',
+            method ? `- Method: ${method}` : '',
+            concepts?.length ? `- Concepts: ${concepts.join(', ')}` : '',
+            evidence?.length ? `- Evidence: thought${evidence.length === 1 ? '' : 's'} ${evidence.join(', ')}` : '',
+            ...(alternatives ?? []).map(alt => `- ${alt.decision === 'chosen' ? 'Chose' : 'Rejected'}: ${alt.option}${alt.reason ? ` (${alt.reason})` : ''}`),
+        ].filter(Boolean);
+        if (details.length > 0) {
+            lines.push('', ...details);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders the versioned, re-importable JSON export.
+ */
+function toJson(session: ThinkingSession): string {
+    const document: SessionExport = {
+        schema: SESSION_EXPORT_SCHEMA,
+        version: SESSION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        session: {
+            id: session.id,
+            title: session.title,
+            createdAt: session.createdAt,
+            closedAt: session.closedAt,
+            policies: session.policies,
+            goals: session.goals,
+            branchResolutions: Object.keys(session.branchResolutions).length > 0 ? session.branchResolutions : undefined,
+        },
+        thoughts: session.thoughtHistory,
+    };
+    return JSON.stringify(document, null, 2);
+}
+
+// --- Public API ---
+
+/**
+ * Renders a session's thoughts, revisions and branches in the requested format.
+ * @param session The session to export.
+ * @param format One of `EXPORT_FORMATS`.
+ * @returns The rendered document.
+ */
+export function renderSession(session: ThinkingSession, format: ExportFormat): string {
+    switch (format) {
+        case 'mermaid':
+            return toMermaid(session);
+        case 'dot':
+            return toDot(session);
+        case 'markdown':
+            return toMarkdown(session);
+        case 'json':
+            return toJson(session);
+    }
+}
+
+/**
+ * Whether a value is an ISO 8601 timestamp of a real date.
+ */
+function isTimestamp(value: unknown): boolean {
+    return typeof value === 'string' && ISO_TIMESTAMP.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Parses and checks the envelope of a JSON session export.
+ * Individual thoughts are validated when they are replayed into a session.
+ * @param input The export, either as a JSON string or an already parsed object.
+ * @returns The parsed export.
+ * @throws {Error} If the input is not a supported session export.
+ */
+export function parseSessionExport(input: unknown): SessionExport {
+    let document: unknown = input;
+    if (typeof input === 'string') {
+        try {
+            document = JSON.parse(input);
+        } catch {
+            throw new Error('Invalid input: session export is not valid JSON.');
+        }
+    }
+
+    const data = document as Partial<SessionExport> | null;
+    if (typeof data !== 'object' || data === null || data.schema !== SESSION_EXPORT_SCHEMA) {
+        throw new Error(`Invalid input: not a \`${SESSION_EXPORT_SCHEMA}\` export.`);
+    }
+    if (data.version !== SESSION_EXPORT_VERSION) {
+        throw new Error(`Unsupported session export version ${data.version}; expected ${SESSION_EXPORT_VERSION}.`);
+    }
+    if (typeof data.session !== 'object' || data.session === null || typeof data.session.id !== 'string' || !Array.isArray(data.thoughts)) {
+        throw new Error('Invalid input: session export must contain `session.id` and a `thoughts` array.');
+    }
+    for (const field of ['createdAt', 'closedAt'] as const) {
+        const value: unknown = data.session[field];
+        if (value !== undefined && !isTimestamp(value)) {
+            throw new Error(`Invalid input: \`session.${field}\` must be an ISO timestamp, got ${JSON.stringify(value)}.`);
+        }
+    }
+    if (data.session.policies !== undefined) {
+        data.session.policies = parsePolicyRules(data.session.policies);
+    }
+    if (data.session.goals !== undefined) {
+        data.session.goals = declareGoals(undefined, data.session.goals as unknown as Record<string, unknown>);
+    }
+    if (data.session.branchResolutions !== undefined) {
+        data.session.branchResolutions = parseBranchResolutions(data.session.branchResolutions, data.thoughts.length);
+        for (const [branchId, { at }] of Object.entries(data.session.branchResolutions)) {
+            if (!isTimestamp(at)) {
+                throw new Error(`Invalid branch resolution for \`${branchId}\`: \`at\` must be an ISO timestamp, got ${JSON.stringify(at)}.`);
+            }
+        }
+    }
+    return data as SessionExport;
+}
@@ -0,0 +1,195 @@
+import { ThinkingSession } from './better-thinking-tool.js';
+import { branchStatus } from './branch-lifecycle.js';
+import { goalProgress } from './goal-tracker.js';
+import { branchThoughts, findThoughts, ThoughtEntry } from './history-queries.js';
+import { ThoughtNode } from './thought-graph.js';
+
+// --- Constants ---
+
+/** URI prefix of every session resource. */
+const SESSIONS_PREFIX = 'thinking://sessions/';
+/** All resources are JSON documents. */
+export const RESOURCE_MIME_TYPE = 'application/json';
+
+/**
+ * The resource templates a client can fill in to read parts of a session.
+ */
+export const RESOURCE_TEMPLATES = [
+    {
+        uriTemplate: `${SESSIONS_PREFIX}{id}`,
+        name: 'Thinking session',
+        description: 'A session with its status, branches and every thought in history order.',
+        mimeType: RESOURCE_MIME_TYPE,
+    },
+    {
+        uriTemplate: `${SESSIONS_PREFIX}{id}/thoughts/{n}`,
+        name: 'Thought',
+        description: 'The thoughts recorded with number n in a session (several if branches reuse the number).',
+        mimeType: RESOURCE_MIME_TYPE,
+    },
+    {
+        uriTemplate: `${SESSIONS_PREFIX}{id}/branches/{branchId}`,
+        name: 'Branch',
+        description: 'A branch of a session: its status, where it forks from and its thoughts.',
+        mimeType: RESOURCE_MIME_TYPE,
+    },
+];
+
+// --- Interfaces ---
+
+/**
+ * A concrete resource as advertised by `resources/list`.
+ */
+export interface SessionResource {
+    uri: string;
+    name: string;
+    description?: string;
+    mimeType: string;
+}
+
+/**
+ * What a resource URI points at.
+ */
+export type ResourceTarget =
+    | { kind: 'session'; sessionId: string }
+    | { kind: 'thought'; sessionId: string; thoughtNumber: number }
+    | { kind: 'branch'; sessionId: string; branchId: string };
+
+// --- URIs ---
+
+/** URI of a whole session. */
+export function sessionUri(sessionId: string): string {
+    return `${SESSIONS_PREFIX}${encodeURIComponent(sessionId)}`;
+}
+
+/** URI of the thoughts with a given number in a session. */
+export function thoughtUri(sessionId: string, thoughtNumber: number): string {
+    return `${sessionUri(sessionId)}/thoughts/${thoughtNumber}`;
+}
+
+/** URI of a branch of a session. */
+export function branchUri(sessionId: string, branchId: string): string {
+    return `${sessionUri(sessionId)}/branches/${encodeURIComponent(branchId)}`;
+}
+
+/**
+ * Parses a `thinking://sessions/...` URI.
+ * @param uri The URI to parse.
+ * @returns What the URI points at.
+ * @throws {Error} If the URI does not match any resource template.
+ */
+export function parseResourceUri(uri: string): ResourceTarget {
+    const segments = uri.startsWith(SESSIONS_PREFIX) ? uri.slice(SESSIONS_PREFIX.length).split('/') : [];
+    const decode = (segment: string) => {
+        try {
+            return decodeURIComponent(segment);
+        } catch {
+            return '';
+        }
+    };
+    const sessionId = decode(segments[0] ?? '');
+
+    if (sessionId && segments.length === 1) {
+        return { kind: 'session', sessionId };
+    }
+    if (sessionId && segments.length === 3 && segments[1] === 'thoughts' && /^[1-9]\d*$/.test(segments[2])) {
+        return { kind: 'thought', sessionId, thoughtNumber: Number(segments[2]) };
+    }
+    if (sessionId && segments.length === 3 && segments[1] === 'branches' && decode(segments[2])) {
+        return { kind: 'branch', sessionId, branchId: decode(segments[2]) };
+    }
+    throw new Error(`Unknown resource URI: ${uri}`);
+}
+
+/**
+ * Lists the resources whose content changes when a thought is recorded:
+ * its session, its thought number and, for branch thoughts, its branch.
+ * @param session The session the thought was recorded in.
+ * @param node The new thought's node.
+ */
+export function changedResourceUris(session: ThinkingSession, node: ThoughtNode): string[] {
+    const uris = [sessionUri(session.id), thoughtUri(session.id, node.thought.thoughtNumber)];
+    if (node.thought.branchId !== undefined) {
+        uris.push(branchUri(session.id, node.thought.branchId));
+    }
+    return uris;
+}
+
+// --- Listing and Reading ---
+
+/**
+ * Serializes thought entries the way the query tools do, plus the line each thought is on.
+ */
+function serializeEntries(session: ThinkingSession, entries: ThoughtEntry[]): Array<Record<string, unknown>> {
+    return entries.map(({ position, thought }) => ({ position, line: session.graph.getNode(position)!.line, ...thought }));
+}
+
+/**
+ * Lists every session and branch as a concrete resource. Thoughts are reachable through the templates.
+ * @param sessions The sessions to list.
+ */
+export function listSessionResources(sessions: ThinkingSession[]): SessionResource[] {
+    return sessions.flatMap(session => [
+        {
+            uri: sessionUri(session.id),
+            name: session.title ? `${session.id}: ${session.title}` : session.id,
+            description: `${session.closedAt ? 'Closed' : 'Open'} session with ${session.thoughtHistory.length} thoughts`,
+            mimeType: RESOURCE_MIME_TYPE,
+        },
+        ...Object.keys(session.branches).map(branchId => ({
+            uri: branchUri(session.id, branchId),
+            name: `${session.id} / ${branchId}`,
+            description: `Branch with ${session.branches[branchId].length} thoughts (${branchStatus(session, branchId)})`,
+            mimeType: RESOURCE_MIME_TYPE,
+        })),
+    ]);
+}
+
+/**
+ * Reads a resource of a session as a JSON document.
+ * @param session The session the target belongs to.
+ * @param target The parsed resource URI.
+ * @returns The JSON text of the resource.
+ * @throws {Error} If the thought or branch does not exist.
+ */
+export function readSessionResource(session: ThinkingSession, target: ResourceTarget): string {
+    let document: Record<string, unknown>;
+    switch (target.kind) {
+        case 'session':
+            document = {
+                session_id: session.id,
+                title: session.title ?? null,
+                status: session.closedAt ? 'closed' : 'open',
+                created_at: session.createdAt,
+                closed_at: session.closedAt ?? null,
+                total_history_length: session.thoughtHistory.length,
+                branches: Object.keys(session.branches),
+                goal_progress: session.goals ? goalProgress(session.goals, session.thoughtHistory, session.branchResolutions) : null,
+                checkpoint: session.checkpoint ? { position: session.checkpoint.position, created_at: session.checkpoint.at } : null,
+                thoughts: serializeEntries(session, session.thoughtHistory.map((thought, index) => ({ position: index + 1, thought }))),
+            };
+            break;
+        case 'thought': {
+            const matches = findThoughts(session, target.thoughtNumber);
+            if (matches.length === 0) {
+                throw new Error(`Thought ${target.thoughtNumber} not found in session \`${session.id}\`.`);
+            }
+            document = { session_id: session.id, thought_number: target.thoughtNumber, thoughts: serializeEntries(session, matches) };
+            break;
+        }
+        case 'branch': {
+            const thoughts = branchThoughts(session, target.branchId);
+            const origin = session.graph.getBranchOrigin(target.branchId)!;
+            document = {
+                session_id: session.id,
+                branch_id: target.branchId,
+                status: branchStatus(session, target.branchId),
+                reason: session.branchResolutions[target.branchId]?.reason ?? null,
+                forks_from: { node_id: origin.forkNodeId, thought_number: origin.forkThought },
+                thoughts: serializeEntries(session, thoughts),
+            };
+            break;
+        }
+    }
+    return JSON.stringify(document, null, 2);
+}
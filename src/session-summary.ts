@@ -0,0 +1,219 @@
+import { ThinkingSession } from './better-thinking-tool.js';
+import { branchStatus } from './branch-lifecycle.js';
+import { GoalProgress, goalProgress } from './goal-tracker.js';
+import { effectiveChain, ThoughtEntry } from './history-queries.js';
+import { consolidateKnowledge } from './session-analysis.js';
+import { MAIN_LINE } from './thought-graph.js';
+
+// --- Constants ---
+
+/** Budget used when a summary request sets neither `maxCharacters` nor `maxTokens`. */
+export const DEFAULT_SUMMARY_CHARACTERS = 8000;
+/** Smallest accepted budget; below this not even the fixed parts of a summary fit. */
+export const MIN_SUMMARY_CHARACTERS = 1000;
+/** Rough characters per token, used to turn a token budget into a character budget. */
+export const CHARACTERS_PER_TOKEN = 4;
+
+/** Thought texts are shortened to these lengths, one step at a time, until the summary fits its budget. */
+const TEXT_LIMITS = [600, 300, 150, 80, 40];
+
+// --- Interfaces ---
+
+/**
+ * A thought as it appears in a summary, with its text possibly shortened.
+ */
+export interface SummaryThought {
+    position: number;
+    thought_number: number;
+    line: string;
+    confidence: number | null;
+    thought: string;
+}
+
+/**
+ * A deterministic, compact digest of a session. Field names match the tool response payload.
+ */
+export interface SessionSummary {
+    session_id: string;
+    title: string | null;
+    closed: boolean;
+    /** Number of thoughts in the history when the summary was built. */
+    total_history_length: number;
+    /** Only the part of the session after this history position is summarized, or `null` for the whole session. */
+    since_position: number | null;
+    /** The main line's effective chain: superseded thoughts are replaced by their revisions. */
+    effective_chain: SummaryThought[];
+    /** Thoughts superseded by revisions, which the chain leaves out. */
+    superseded: Array<{ thought_number: number; revised_by: number }>;
+    /**
+     * Conclusions still in force: thoughts that ended the reasoning (`nextThoughtNeeded=false`),
+     * merges of branch conclusions, and the latest thought of the effective chain.
+     */
+    key_conclusions: Array<SummaryThought & { kind: 'conclusion' | 'merge' | 'latest' }>;
+    /** Every line with its status and the latest confidence on its effective chain. */
+    branches: Array<{ branch_id: string; status: string; reason: string | null; thought_count: number; final_confidence: number | null }>;
+    /** The latest knowledge status of every assessed entity. */
+    knowledge: ReturnType<typeof consolidateKnowledge>;
+    goal_progress: GoalProgress | null;
+    budget: {
+        max_characters: number;
+        /** Length of the summary serialized as JSON. */
+        used_characters: number;
+        /** Length thought texts were shortened to, or `null` if they are complete. */
+        thought_text_limit: number | null;
+        /** Chain thoughts dropped from the middle of `effective_chain` to fit the budget. */
+        omitted_thoughts: number;
+        /** Whether the summary is still larger than the budget after every reduction. */
+        exceeded: boolean;
+    };
+}
+
+/**
+ * A summary stored with the session, so a client may drop the thoughts it covers from its own
+ * context and later ask only for what happened since.
+ */
+export interface SummaryCheckpoint {
+    /** ISO timestamp of when the checkpoint was taken. */
+    at: string;
+    /** Number of thoughts in the session history when the checkpoint was taken. */
+    position: number;
+    summary: SessionSummary;
+}
+
+// --- Summarizing ---
+
+/**
+ * Shortens text to at most `limit` characters, marking the cut with an ellipsis.
+ */
+function shorten(text: string, limit: number | null): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return limit === null || singleLine.length <= limit ? singleLine : `${singleLine.slice(0, limit - 1).trimEnd()}…`;
+}
+
+/**
+ * Converts a history entry into its summary form.
+ */
+function toSummaryThought({ position, thought }: ThoughtEntry, limit: number | null): SummaryThought {
+    return {
+        position,
+        thought_number: thought.thoughtNumber,
+        line: thought.branchId ?? MAIN_LINE,
+        confidence: thought.confidence_score ?? null,
+        thought: shorten(thought.thought, limit),
+    };
+}
+
+/**
+ * Returns the node ids of thoughts superseded by revisions. As in `effectiveChain`, a revision only
+ * supersedes a thought on the line it was recorded on (or on the main line once that line is adopted),
+ * so a side branch revising a main-line thought leaves the main line's thought in force. Abandoned
+ * branches supersede nothing.
+ */
+function supersededNodeIds(session: ThinkingSession): Set<number> {
+    const superseded = new Set<number>();
+    const lines = [MAIN_LINE, ...Object.keys(session.branches)].filter(line => session.branchResolutions[line]?.status !== 'abandoned');
+    for (const line of lines) {
+        const tip = session.graph.getLineTip(line);
+        const kept = new Set(effectiveChain(session, line).chain.map(({ position }) => position));
+        (tip === undefined ? [] : session.graph.ancestors(tip))
+            .filter(node => node.line === line && !kept.has(node.id))
+            .forEach(node => superseded.add(node.id));
+    }
+    return superseded;
+}
+
+/**
+ * Builds a summary of a session that fits a character budget. The result only depends on the
+ * session's history and the arguments, so the same session always yields the same summary.
+ *
+ * When the full summary is too large, thought texts are shortened step by step, then thoughts are
+ * dropped from the middle of the effective chain (the earliest and latest are kept longest). Key
+ * conclusions, branches, knowledge and goal progress are always kept.
+ * @param session The session to summarize.
+ * @param maxCharacters The budget for the summary serialized as JSON.
+ * @param sincePosition Only summarize thoughts after this history position (Optional).
+ */
+export function summarizeSession(session: ThinkingSession, maxCharacters: number, sincePosition?: number): SessionSummary {
+    const after = sincePosition ?? 0;
+    const { chain, superseded } = effectiveChain(session);
+    const revised = supersededNodeIds(session);
+    const nodes = session.graph.getNodes().filter(node => node.id > after && !revised.has(node.id));
+
+    const conclusions = new Map<number, { entry: ThoughtEntry; kind: 'conclusion' | 'merge' | 'latest' }>();
+    for (const node of nodes) {
+        if (!node.thought.nextThoughtNeeded) {
+            conclusions.set(node.id, { entry: { position: node.id, thought: node.thought }, kind: 'conclusion' });
+        } else if (node.thought.mergeIntoThought !== undefined) {
+            conclusions.set(node.id, { entry: { position: node.id, thought: node.thought }, kind: 'merge' });
+        }
+    }
+    const latest = chain[chain.length - 1];
+    if (latest && latest.position > after && !conclusions.has(latest.position)) {
+        conclusions.set(latest.position, { entry: latest, kind: 'latest' });
+    }
+
+    const lines = [MAIN_LINE, ...Object.keys(session.branches)].map(line => {
+        const lineChain = effectiveChain(session, line).chain;
+        const scored = lineChain.filter(({ thought }) => thought.confidence_score !== undefined);
+        return {
+            branch_id: line,
+            status: line === MAIN_LINE ? 'main' : branchStatus(session, line),
+            reason: session.branchResolutions[line]?.reason ?? null,
+            thought_count: session.graph.getNodes().filter(node => node.line === line).length,
+            final_confidence: scored.length > 0 ? scored[scored.length - 1].thought.confidence_score! : null,
+        };
+    });
+
+    const recent = chain.filter(({ position }) => position > after);
+    const build = (limit: number | null, omitted: number): SessionSummary => {
+        const kept = omitted === 0
+            ? recent
+            : [...recent.slice(0, Math.ceil((recent.length - omitted) / 2)), ...recent.slice(recent.length - Math.floor((recent.length - omitted) / 2))];
+        const summary: SessionSummary = {
+            session_id: session.id,
+            title: session.title ?? null,
+            closed: session.closedAt !== undefined,
+            total_history_length: session.thoughtHistory.length,
+            since_position: sincePosition ?? null,
+            effective_chain: kept.map(entry => toSummaryThought(entry, limit)),
+            superseded: superseded.map(({ thoughtNumber, revisedBy }) => ({ thought_number: thoughtNumber, revised_by: revisedBy })),
+            key_conclusions: [...conclusions.values()]
+                .sort((a, b) => a.entry.position - b.entry.position)
+                .map(({ entry, kind }) => ({ ...toSummaryThought(entry, limit), kind })),
+            branches: lines,
+            knowledge: consolidateKnowledge(session.thoughtHistory),
+            goal_progress: session.goals ? goalProgress(session.goals, session.thoughtHistory, session.branchResolutions) : null,
+            budget: { max_characters: maxCharacters, used_characters: 0, thought_text_limit: limit, omitted_thoughts: omitted, exceeded: false },
+        };
+        summary.budget.used_characters = JSON.stringify(summary).length;
+        summary.budget.exceeded = summary.budget.used_characters > maxCharacters;
+        return summary;
+    };
+
+    // 1. Shorten thought texts, 2. drop chain thoughts from the middle
+    let summary = build(null, 0);
+    for (const limit of TEXT_LIMITS) {
+        if (!summary.budget.exceeded) {
+            return summary;
+        }
+        summary = build(limit, 0);
+    }
+    if (!summary.budget.exceeded) {
+        return summary;
+    }
+
+    // Binary search for the fewest omitted thoughts that fit (the size shrinks with every omitted thought)
+    const shortest = TEXT_LIMITS[TEXT_LIMITS.length - 1];
+    let [low, high] = [1, recent.length];
+    let best = build(shortest, high);
+    while (low < high) {
+        const middle = Math.floor((low + high) / 2);
+        const candidate = build(shortest, middle);
+        if (candidate.budget.exceeded) {
+            low = middle + 1;
+        } else {
+            [high, best] = [middle, candidate];
+        }
+    }
+    return best;
+}
@@ -0,0 +1,157 @@
+// --- Constants ---
+
+/** Matches ANSI escape codes (used for terminal colors). */
+// eslint-disable-next-line no-control-regex
+const ANSI_PATTERN = /[\u001b\u009b][[()#;?]*(?:[0-9]{1,4}(?:;[0-9]{0,4})*)?[0-9A-ORZcf-nqry=><]/g;
+
+/** Splits text into user-perceived characters, so emoji sequences and combining marks stay together. */
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+/** Code point ranges that terminals draw two columns wide (East Asian Wide and Fullwidth). */
+const WIDE_RANGES: Array<[number, number]> = [
+    [0x1100, 0x115f], [0x2e80, 0x303e], [0x3041, 0x33ff], [0x3400, 0x4dbf], [0x4e00, 0x9fff],
+    [0xa000, 0xa4cf], [0xa960, 0xa97f], [0xac00, 0xd7a3], [0xf900, 0xfaff], [0xfe10, 0xfe19],
+    [0xfe30, 0xfe6f], [0xff00, 0xff60], [0xffe0, 0xffe6], [0x1f300, 0x1f64f], [0x1f900, 0x1f9ff],
+    [0x20000, 0x2fffd], [0x30000, 0x3fffd],
+];
+
+// --- Helper Functions ---
+
+/**
+ * Removes ANSI escape codes (used for terminal colors) from a string.
+ * @param text The string potentially containing ANSI codes.
+ * @returns The string with ANSI codes removed.
+ */
+export function stripAnsi(text: string): string {
+    return text.replace(ANSI_PATTERN, '');
+}
+
+/**
+ * Number of terminal columns a single grapheme occupies.
+ */
+function graphemeWidth(grapheme: string): number {
+    const codePoint = grapheme.codePointAt(0)!;
+    if (codePoint < 0x20 || (codePoint >= 0x7f && codePoint < 0xa0) || /^[\p{Mn}\p{Me}\u200b-\u200f\u2060\ufeff]+$/u.test(grapheme)) {
+        return 0; // Control characters, lone combining marks and zero-width characters
+    }
+    if (/\p{Extended_Pictographic}/u.test(grapheme) && (/\p{Emoji_Presentation}/u.test(grapheme) || grapheme.includes('\ufe0f'))) {
+        return 2; // Emoji drawn as pictures, including ZWJ sequences and text symbols with VS16
+    }
+    if (/^\p{Regional_Indicator}{2}$/u.test(grapheme)) {
+        return 2; // Flags
+    }
+    return WIDE_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 2 : 1;
+}
+
+/**
+ * Splits text into graphemes and ANSI escape codes, keeping the codes as separate zero-width units.
+ */
+function units(text: string): string[] {
+    return text.split(new RegExp(`(${ANSI_PATTERN.source})`)).flatMap((part, index) =>
+        index % 2 === 1 ? [part] : [...graphemes.segment(part)].map(({ segment }) => segment));
+}
+
+// --- Measuring and Wrapping ---
+
+/**
+ * Number of terminal columns the text occupies, ignoring ANSI codes and counting wide
+ * characters and emoji as two columns. The text must not contain line breaks.
+ * @param text The text to measure.
+ */
+export function displayWidth(text: string): number {
+    let width = 0;
+    for (const { segment } of graphemes.segment(stripAnsi(text))) {
+        width += graphemeWidth(segment);
+    }
+    return width;
+}
+
+/**
+ * Pads text with spaces on the right to the given display width.
+ * @param text The text to pad.
+ * @param width The display width to reach.
+ */
+export function padToWidth(text: string, width: number): string {
+    return text + ' '.repeat(Math.max(0, width - displayWidth(text)));
+}
+
+/**
+ * Shortens text to at most the given display width, marking the cut with an ellipsis.
+ * @param text The text to shorten. Line breaks are treated as spaces.
+ * @param width The maximum display width.
+ */
+export function truncateToWidth(text: string, width: number): string {
+    const singleLine = text.replace(/\s*\n\s*/g, ' ');
+    if (displayWidth(singleLine) <= width) {
+        return singleLine;
+    }
+    let result = '';
+    let used = 0;
+    for (const unit of units(singleLine)) {
+        const unitWidth = displayWidth(unit);
+        if (used + unitWidth > width - 1) {
+            break;
+        }
+        result += unit;
+        used += unitWidth;
+    }
+    return `${result}…${/\u001b/.test(result) ? '\u001b[0m' : ''}`;
+}
+
+/**
+ * Wraps text at word boundaries so that no line exceeds the given display width.
+ * Words wider than a line are broken between characters. ANSI codes are kept and never counted.
+ * @param text The text to wrap; existing line breaks are kept.
+ * @param width The maximum display width of a line (at least 1).
+ * @returns The wrapped lines.
+ */
+export function wrapText(text: string, width: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split('\n')) {
+        let line = '';
+        let lineWidth = 0;
+        const flush = () => {
+            lines.push(line);
+            line = '';
+            lineWidth = 0;
+        };
+
+        // Whitespace between words is held back, so it is dropped where the line wraps.
+        let pending = '';
+        (paragraph.match(/\s+|\S+/g) ?? []).forEach((token, index) => {
+            if (/^\s/.test(token)) {
+                if (index === 0) {
+                    line += token; // Indentation
+                    lineWidth += displayWidth(token);
+                } else {
+                    pending = token;
+                }
+                return;
+            }
+            const tokenWidth = displayWidth(token);
+            if (lineWidth > 0 && lineWidth + displayWidth(pending) + tokenWidth > width) {
+                flush();
+            } else {
+                line += pending;
+                lineWidth += displayWidth(pending);
+            }
+            pending = '';
+
+            if (lineWidth + tokenWidth <= width) {
+                line += token;
+                lineWidth += tokenWidth;
+                return;
+            }
+            for (const unit of units(token)) {
+                const unitWidth = displayWidth(unit);
+                if (lineWidth > 0 && lineWidth + unitWidth > width) {
+                    flush();
+                }
+                line += unit;
+                lineWidth += unitWidth;
+            }
+        });
+        lines.push(line);
+    }
+    return lines;
+}
@@ -0,0 +1,332 @@
+import { ThoughtData } from './better-thinking-tool.js';
+
+// --- Constants ---
+
+/** Line name for thoughts that are not on any branch. Reserved, so it cannot be used as a `branchId`. */
+export const MAIN_LINE = 'main';
+
+// --- Interfaces ---
+
+/**
+ * The kinds of edges between thoughts.
+ * - `sequence`: the next thought on the same line.
+ * - `branch`: the first thought of a branch, from its fork point.
+ * - `merge`: a branch thought feeding its conclusion into a thought on another line.
+ * - `revision`: a thought revising an earlier thought in its own lineage.
+ */
+export type EdgeType = 'sequence' | 'branch' | 'merge' | 'revision';
+
+/**
+ * A directed edge between two nodes, identified by their node ids.
+ */
+export interface ThoughtEdge {
+    type: EdgeType;
+    from: number;
+    to: number;
+}
+
+/**
+ * A thought placed in the reasoning graph.
+ */
+export interface ThoughtNode {
+    /** 1-based position of the thought in the session history. */
+    id: number;
+    thought: ThoughtData;
+    /** The line the node belongs to: its `branchId`, or `MAIN_LINE`. */
+    line: string;
+    /** The node this one continues from, or `null` for the root. */
+    parentId: number | null;
+    /** How the node attaches to its parent: `sequence` on the same line, `branch` from a fork point. */
+    parentEdge: 'sequence' | 'branch' | null;
+    /** Number of `sequence`/`branch` edges between the root and this node. */
+    depth: number;
+}
+
+/**
+ * Where a branch diverges from the rest of the graph.
+ */
+export interface BranchOrigin {
+    /** Node id of the thought the branch forks from. */
+    forkNodeId: number;
+    /** Thought number of the fork point, as given in `branchFromThought`. */
+    forkThought: number;
+}
+
+/**
+ * The edges a new thought would be attached with, computed before anything is mutated.
+ */
+interface Placement {
+    line: string;
+    parentId: number | null;
+    parentEdge: ThoughtNode['parentEdge'];
+    revisesNodeId?: number;
+    mergesIntoNodeId?: number;
+}
+
+// --- Graph ---
+
+/**
+ * Directed graph of a session's thoughts. Branching forms an actual tree: each thought is attached
+ * to its parent on its line (or its fork point), and revisions and merges are typed edges to
+ * existing nodes. Every reference is checked when a thought is added, so the graph never holds
+ * dangling references or structural cycles.
+ */
+export class ThoughtGraph {
+    private nodes: ThoughtNode[] = [];
+    private edges: ThoughtEdge[] = [];
+    private lineTips = new Map<string, number>(); // Latest node id on each line
+    private branchOrigins = new Map<string, BranchOrigin>();
+
+    /** Returns the node with the given id, if any. */
+    public getNode(id: number): ThoughtNode | undefined {
+        return this.nodes[id - 1];
+    }
+
+    /** Returns all nodes in insertion order. */
+    public getNodes(): ThoughtNode[] {
+        return [...this.nodes];
+    }
+
+    /** Returns all edges in insertion order. */
+    public getEdges(): ThoughtEdge[] {
+        return [...this.edges];
+    }
+
+    /** Returns the latest node id on a line, if the line has any thoughts. After an adoption, the main line's tip is the adopted branch's tip. */
+    public getLineTip(line: string): number | undefined {
+        return this.lineTips.get(line);
+    }
+
+    /** Returns where a branch forks from, if the branch exists. */
+    public getBranchOrigin(branchId: string): BranchOrigin | undefined {
+        return this.branchOrigins.get(branchId);
+    }
+
+    /**
+     * Returns the outgoing edges of a given type from a node.
+     * @param id The source node id.
+     * @param type The edge type to select.
+     */
+    public outgoing(id: number, type: EdgeType): ThoughtEdge[] {
+        return this.edges.filter(edge => edge.from === id && edge.type === type);
+    }
+
+    /**
+     * Returns the path from the root to a node, following parents.
+     * @param id The node to trace back from.
+     * @returns The nodes from the root down to (and including) `id`.
+     */
+    public ancestors(id: number): ThoughtNode[] {
+        const path: ThoughtNode[] = [];
+        for (let node = this.getNode(id); node; node = node.parentId === null ? undefined : this.getNode(node.parentId)) {
+            path.unshift(node);
+        }
+        return path;
+    }
+
+    /**
+     * Returns the sequence of lines crossed on the way from the root to a node, e.g. `['main', 'alt']`.
+     * @param id The node to describe.
+     */
+    public lineage(id: number): string[] {
+        return this.ancestors(id).reduce<string[]>((lines, node) =>
+            lines[lines.length - 1] === node.line ? lines : [...lines, node.line], []);
+    }
+
+    /**
+     * Checks that a branch can be adopted as the main line: it must fork from the current main chain.
+     * @param branchId The branch to adopt.
+     * @throws {Error} If the branch does not exist or forks from another branch.
+     */
+    public validateAdoption(branchId: string): void {
+        const origin = this.branchOrigins.get(branchId);
+        if (!origin) {
+            throw new Error(`Unknown branch: \`${branchId}\`.`);
+        }
+        if (!this.mainChainIds().has(origin.forkNodeId)) {
+            const forkLine = this.getNode(origin.forkNodeId)!.line;
+            throw new Error(`Branch \`${branchId}\` forks from branch \`${forkLine}\`, not from the main line. Adopt \`${forkLine}\` first.`);
+        }
+    }
+
+    /**
+     * Makes a branch the main line: the main line's tip moves to the branch's tip, so the next main-line
+     * thought continues from the branch, and main-line thoughts after the fork point drop out of the main chain.
+     * @param branchId The branch to adopt.
+     * @returns The main-line nodes that are no longer part of the main chain.
+     * @throws {Error} If the branch cannot be adopted (see `validateAdoption`).
+     */
+    public adopt(branchId: string): ThoughtNode[] {
+        this.validateAdoption(branchId);
+        const mainChain = this.mainChainIds();
+        this.lineTips.set(MAIN_LINE, this.lineTips.get(branchId)!);
+        const adoptedChain = this.mainChainIds();
+        return this.nodes.filter(node => mainChain.has(node.id) && !adoptedChain.has(node.id));
+    }
+
+    /**
+     * Checks that a thought can be added without breaking referential integrity or creating a cycle.
+     * @param thought The validated thought data.
+     * @returns The node the thought would attach to, or `undefined` if it would become the root.
+     * @throws {Error} Describing the first violated constraint.
+     */
+    public validate(thought: ThoughtData): ThoughtNode | undefined {
+        const { parentId } = this.place(thought);
+        return parentId === null ? undefined : this.getNode(parentId);
+    }
+
+    /**
+     * Adds a thought as a new node with its edges.
+     * @param thought The validated thought data.
+     * @returns The new node.
+     * @throws {Error} If the thought violates referential integrity or would create a cycle.
+     */
+    public add(thought: ThoughtData): ThoughtNode {
+        const placement = this.place(thought);
+        const parent = placement.parentId === null ? undefined : this.getNode(placement.parentId);
+        const node: ThoughtNode = {
+            id: this.nodes.length + 1,
+            thought,
+            line: placement.line,
+            parentId: placement.parentId,
+            parentEdge: placement.parentEdge,
+            depth: parent ? parent.depth + 1 : 0,
+        };
+
+        this.nodes.push(node);
+        this.lineTips.set(node.line, node.id);
+        if (placement.parentEdge === 'branch') {
+            this.branchOrigins.set(node.line, { forkNodeId: placement.parentId!, forkThought: thought.branchFromThought! });
+        }
+        if (placement.parentEdge !== null) {
+            this.edges.push({ type: placement.parentEdge, from: placement.parentId!, to: node.id });
+        }
+        if (placement.revisesNodeId !== undefined) {
+            this.edges.push({ type: 'revision', from: node.id, to: placement.revisesNodeId });
+        }
+        if (placement.mergesIntoNodeId !== undefined) {
+            this.edges.push({ type: 'merge', from: node.id, to: placement.mergesIntoNodeId });
+        }
+        return node;
+    }
+
+    /**
+     * Returns the ids of the nodes on the main chain: the path from the root to the main line's tip.
+     */
+    private mainChainIds(): Set<number> {
+        const tip = this.lineTips.get(MAIN_LINE);
+        return new Set(tip === undefined ? [] : this.ancestors(tip).map(node => node.id));
+    }
+
+    /**
+     * Resolves a thought number used as a fork or merge target. The main chain (including any
+     * adopted branch) is searched first, then the main line, then the other lines from the most
+     * recent node backwards.
+     * @param thoughtNumber The referenced thought number.
+     * @param excludeLine A line whose nodes may not be referenced (Optional).
+     */
+    private resolveTarget(thoughtNumber: number, excludeLine?: string): ThoughtNode | undefined {
+        const candidates = this.nodes.filter(node => node.thought.thoughtNumber === thoughtNumber && node.line !== excludeLine);
+        const mainChain = this.mainChainIds();
+        return candidates.find(node => mainChain.has(node.id))
+            ?? candidates.find(node => node.line === MAIN_LINE)
+            ?? candidates[candidates.length - 1];
+    }
+
+    /**
+     * Whether `to` can be reached from `from` along `sequence`, `branch` and `merge` edges.
+     * Revision edges point back into a thought's own lineage by design, so they are not structural.
+     */
+    private reaches(from: number, to: number): boolean {
+        const stack = [from];
+        const seen = new Set<number>();
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            if (id === to) {
+                return true;
+            }
+            if (seen.has(id)) {
+                continue;
+            }
+            seen.add(id);
+            for (const edge of this.edges) {
+                if (edge.from === id && edge.type !== 'revision') {
+                    stack.push(edge.to);
+                }
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Computes where a thought attaches to the graph, enforcing every integrity rule.
+     * @param thought The validated thought data.
+     * @throws {Error} Describing the first violated constraint.
+     */
+    private place(thought: ThoughtData): Placement {
+        const { thoughtNumber, branchId, branchFromThought, revisesThought, mergeIntoThought } = thought;
+        if (branchId === MAIN_LINE) {
+            throw new Error(`Invalid input: \`branchId\` "${MAIN_LINE}" is reserved for the main line.`);
+        }
+
+        // 1. Attach to the line: continue an existing line, or fork a new branch.
+        const line = branchId ?? MAIN_LINE;
+        let parentId: number | null = this.lineTips.get(line) ?? null;
+        let parentEdge: ThoughtNode['parentEdge'] = parentId === null ? null : 'sequence';
+
+        if (branchId !== undefined) {
+            const origin = this.branchOrigins.get(branchId);
+            if (origin) {
+                if (branchFromThought !== undefined && branchFromThought !== origin.forkThought) {
+                    throw new Error(`Branch \`${branchId}\` already forks from thought ${origin.forkThought}; it cannot also fork from thought ${branchFromThought}. Use a new \`branchId\`.`);
+                }
+            } else {
+                if (branchFromThought === undefined) {
+                    throw new Error(`Branch \`${branchId}\` does not exist yet. Set \`branchFromThought\` to start it.`);
+                }
+                const fork = this.resolveTarget(branchFromThought, branchId);
+                if (!fork) {
+                    throw new Error(`Cannot branch from thought ${branchFromThought}: no such thought exists in this session.`);
+                }
+                parentId = fork.id;
+                parentEdge = 'branch';
+            }
+        }
+
+        // 2. A revision must target a thought in this node's own lineage.
+        let revisesNodeId: number | undefined;
+        if (revisesThought !== undefined) {
+            const lineageNodes = parentId === null ? [] : this.ancestors(parentId);
+            const target = lineageNodes.reverse().find(node => node.thought.thoughtNumber === revisesThought);
+            if (!target) {
+                throw new Error(`Cannot revise thought ${revisesThought}: it is not part of this line of reasoning${branchId ? ` (branch \`${branchId}\`)` : ''}.`);
+            }
+            revisesNodeId = target.id;
+        }
+
+        // 3. A merge must target an existing thought on another line without closing a cycle.
+        let mergesIntoNodeId: number | undefined;
+        if (mergeIntoThought !== undefined) {
+            if (branchId === undefined) {
+                throw new Error('Invalid input: `mergeIntoThought` can only be used on a branch thought (set `branchId`).');
+            }
+            const target = this.resolveTarget(mergeIntoThought, line);
+            if (!target) {
+                throw new Error(`Cannot merge into thought ${mergeIntoThought}: no such thought exists outside branch \`${branchId}\`.`);
+            }
+            // The new node is only reachable through its parent, so merging closes a cycle exactly when the target reaches the parent.
+            if (parentId !== null && this.reaches(target.id, parentId)) {
+                throw new Error(`Cannot merge branch \`${branchId}\` into thought ${mergeIntoThought}: that thought precedes the branch, so the merge would create a cycle.`);
+            }
+            mergesIntoNodeId = target.id;
+        }
+
+        // 4. Evidence must cite thoughts that already exist in the session.
+        const missingEvidence = (thought.evidence ?? []).filter(ref => !this.resolveTarget(ref));
+        if (missingEvidence.length > 0) {
+            throw new Error(`Invalid evidence: thought${missingEvidence.length === 1 ? '' : 's'} ${missingEvidence.join(', ')} ${missingEvidence.length === 1 ? 'does' : 'do'} not exist in this session.`);
+        }
+
+        return { line, parentId, parentEdge, revisesNodeId, mergesIntoNodeId };
+    }
+}
@@ -0,0 +1,127 @@
+import chalk from 'chalk';
+
+import { ThoughtData } from './better-thinking-tool.js';
+import { displayWidth, padToWidth, truncateToWidth, wrapText } from './text-width.js';
+
+// --- Constants ---
+
+/**
+ * How processed thoughts are rendered on the server console:
+ * - `box`: a bordered, multi-line box with every field.
+ * - `compact`: a single line with the thought's kind, number, line, confidence and shortened text.
+ * - `off`: not rendered.
+ */
+export const RENDER_MODES = ['box', 'compact', 'off'] as const;
+export type RenderMode = typeof RENDER_MODES[number];
+
+/** Width assumed when stderr is not a terminal, e.g. when it is piped to a log collector. */
+const DEFAULT_WIDTH = 100;
+/** Boxes are never squeezed below this inner width, even in very narrow terminals. */
+const MIN_BOX_WIDTH = 20;
+
+// --- Helper Functions ---
+
+/**
+ * The number of columns available on stderr, where thoughts are rendered.
+ */
+export function terminalWidth(): number {
+    return process.stderr.isTTY && process.stderr.columns ? process.stderr.columns : DEFAULT_WIDTH;
+}
+
+/**
+ * Determines the kind of a thought (normal, merge, revision, branch) with its label and context.
+ */
+function describeKind(thoughtData: ThoughtData): { prefix: string; context: string } {
+    const { isRevision, revisesThought, branchFromThought, branchId, mergeIntoThought } = thoughtData;
+    if (mergeIntoThought && branchId) {
+        return { prefix: chalk.magenta('🔀 Merge'), context: ` (branch ${branchId} into thought ${mergeIntoThought})` };
+    }
+    if (isRevision && revisesThought) {
+        return { prefix: chalk.yellow('🔄 Revision'), context: ` (revising thought ${revisesThought})` };
+    }
+    if (branchFromThought && branchId) {
+        return { prefix: chalk.green('🌿 Branch'), context: ` (from thought ${branchFromThought}, ID: ${branchId})` };
+    }
+    return { prefix: chalk.blue('💭 Thought'), context: branchId ? ` (branch ${branchId})` : '' };
+}
+
+// --- Renderers ---
+
+/**
+ * Formats a thought as a human-readable box with borders and colors. Lines are wrapped
+ * to fit the given width, measured in terminal columns (wide characters and emoji count double).
+ * @param thoughtData The thought data to format.
+ * @param width The maximum width of the box, borders included.
+ */
+function renderBox(thoughtData: ThoughtData, width: number): string {
+    const { thoughtNumber, totalThoughts, thought, confidence_score, knowledge_assessment, goal, subgoal, method, alternatives, concepts, evidence } = thoughtData;
+    const { prefix, context } = describeKind(thoughtData);
+    const header = `${prefix} ${thoughtNumber}/${totalThoughts}${context}`;
+
+    // Format optional sections
+    const confidenceLine = confidence_score !== undefined
+        ? `Confidence: ${chalk.cyan(confidence_score.toFixed(2))}`
+        : '';
+    const knowledgeLines = knowledge_assessment?.length
+        ? 'Knowledge Assessment:\n' + knowledge_assessment.map(ka => `  - ${chalk.yellow(ka.entity)}: ${chalk.magenta(ka.status)}`).join('\n')
+        : '';
+    const goalLines = [
+        goal ? `Goal: ${goal.description} ${chalk.magenta(`[${goal.status}]`)}` : '',
+        subgoal ? `Sub-goal: ${subgoal.description} ${chalk.magenta(`[${subgoal.status}]`)}` : '',
+    ].filter(Boolean).join('\n');
+    const structureLines = [
+        method ? `Method: ${chalk.cyan(method)}` : '',
+        concepts?.length ? `Concepts: ${concepts.map(concept => chalk.yellow(concept)).join(', ')}` : '',
+        evidence?.length ? `Evidence: thought${evidence.length === 1 ? '' : 's'} ${evidence.join(', ')}` : '',
+        alternatives?.length
+            ? 'Alternatives:\n' + alternatives.map(alt => `  ${alt.decision === 'chosen' ? chalk.green('✔') : chalk.red('✘')} ${alt.option}${alt.reason ? ` (${alt.reason})` : ''}`).join('\n')
+            : '',
+    ].filter(Boolean).join('\n');
+    const sections = [thought, goalLines, structureLines, confidenceLine, knowledgeLines].filter(Boolean);
+
+    // The box is as wide as its longest line, up to the available width (minus borders and padding)
+    const maxInner = Math.max(MIN_BOX_WIDTH, width - 4);
+    const contentWidth = Math.max(...[header, ...sections].flatMap(section => section.split('\n')).map(displayWidth));
+    const inner = Math.min(maxInner, contentWidth);
+    const row = (line: string) => `│ ${padToWidth(line, inner)} │`;
+    const border = '─'.repeat(inner + 2);
+
+    const lines = [`┌${border}┐`, ...wrapText(header, inner).map(row)];
+    sections.forEach((section, index) => {
+        lines.push(index === 0 ? `├${border}┤` : `├${'·'.repeat(inner + 2)}┤`);
+        lines.push(...wrapText(section, inner).map(row));
+    });
+    lines.push(`└${border}┘`);
+    return `\n${lines.join('\n')}`;
+}
+
+/**
+ * Formats a thought as a single line: kind, number, line, confidence and the thought text,
+ * shortened to the given width.
+ * @param thoughtData The thought data to format.
+ * @param width The maximum display width of the line.
+ */
+function renderCompact(thoughtData: ThoughtData, width: number): string {
+    const { thoughtNumber, totalThoughts, thought, confidence_score } = thoughtData;
+    const { prefix, context } = describeKind(thoughtData);
+    const confidence = confidence_score !== undefined ? ` ${chalk.cyan(`[${confidence_score.toFixed(2)}]`)}` : '';
+    return truncateToWidth(`${prefix} ${thoughtNumber}/${totalThoughts}${chalk.gray(context)}${confidence}: ${thought}`, width);
+}
+
+/**
+ * Renders a thought for the server console in the given mode.
+ * @param thoughtData The thought data to render.
+ * @param mode The render mode.
+ * @param width The available width in terminal columns (Optional, defaults to the width of stderr).
+ * @returns The rendered text, or an empty string in `off` mode.
+ */
+export function renderThought(thoughtData: ThoughtData, mode: RenderMode, width: number = terminalWidth()): string {
+    switch (mode) {
+        case 'box':
+            return renderBox(thoughtData, width);
+        case 'compact':
+            return renderCompact(thoughtData, width);
+        case 'off':
+            return '';
+    }
+}
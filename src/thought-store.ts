@@ -0,0 +1,219 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import chalk from 'chalk';
+
+import { ThoughtData } from './better-thinking-tool.js';
+import { DeclaredSubgoal } from './goal-tracker.js';
+import { logger } from './logger.js';
+import { SessionPolicyOverrides } from './policies.js';
+import { SessionSummary } from './session-summary.js';
+
+// --- Interfaces ---
+
+/**
+ * A single entry in a session's append-only log.
+ * Replaying a session's events in order reconstructs its full state.
+ */
+export type SessionEvent =
+    | { type: 'session_started'; at: string; sessionId: string; title?: string; policies?: SessionPolicyOverrides }
+    | { type: 'thought'; at: string; thought: ThoughtData }
+    | { type: 'goals_declared'; at: string; goal: string; subgoals: DeclaredSubgoal[] }
+    | { type: 'branch_abandoned'; at: string; branchId: string; reason: string }
+    | { type: 'branch_adopted'; at: string; branchId: string; reason?: string }
+    | { type: 'summary_checkpoint'; at: string; position: number; summary: SessionSummary }
+    | { type: 'session_closed'; at: string };
+
+/**
+ * Storage backend behind `BetterThinkingToolLogic`.
+ * Implementations must make `append` durable before returning, because the logic only
+ * updates its in-memory state once the event has been stored.
+ */
+export interface ThoughtStore {
+    /**
+     * Loads every persisted session.
+     * @returns The events of each session, keyed by session id, in append order.
+     */
+    load(): Map<string, SessionEvent[]>;
+    /**
+     * Appends an event to a session's log.
+     * @throws {Error} If the event cannot be stored (e.g. a size limit is reached).
+     */
+    append(sessionId: string, event: SessionEvent): void;
+    /**
+     * Applies the store's retention policy.
+     * @param keepSessionId A session that must survive, e.g. the one just started (Optional).
+     * @returns The ids of sessions that were removed and should be dropped from memory.
+     */
+    enforceRetention(keepSessionId?: string): string[];
+}
+
+/**
+ * Options for the file-backed store.
+ */
+export interface FileThoughtStoreOptions {
+    /** Directory holding one `<sessionId>.jsonl` log per session. Created if missing. */
+    directory: string;
+    /** Keep at most this many sessions; the oldest are deleted first (Optional, unlimited by default). */
+    maxSessions?: number;
+    /** Reject appends that would grow a session log beyond this many bytes (Optional, unlimited by default). */
+    maxSessionBytes?: number;
+    /**
+     * Only read the logs, e.g. from offline commands while a server may still be writing them (Optional).
+     * Incomplete trailing records are then ignored instead of truncated, nothing is deleted, and appends fail.
+     */
+    readOnly?: boolean;
+}
+
+// --- In-Memory Store ---
+
+/**
+ * Default store: keeps events in memory only, so everything is lost when the process exits.
+ */
+export class InMemoryThoughtStore implements ThoughtStore {
+    private events = new Map<string, SessionEvent[]>();
+
+    public load(): Map<string, SessionEvent[]> {
+        return new Map([...this.events].map(([id, events]) => [id, [...events]]));
+    }
+
+    public append(sessionId: string, event: SessionEvent): void {
+        if (!this.events.has(sessionId)) {
+            this.events.set(sessionId, []);
+        }
+        this.events.get(sessionId)!.push(event);
+    }
+
+    public enforceRetention(): string[] {
+        return [];
+    }
+}
+
+// --- File Store ---
+
+/**
+ * Durable store writing one append-only JSONL log per session.
+ * Every append is flushed with `fsync` before returning. A line left half-written by a
+ * crash is truncated away on the next load, so it can never corrupt later appends.
+ * Read-only stores never modify the directory.
+ */
+export class FileThoughtStore implements ThoughtStore {
+    private readonly directory: string;
+    private readonly maxSessions?: number;
+    private readonly maxSessionBytes?: number;
+    private readonly readOnly: boolean;
+
+    constructor(options: FileThoughtStoreOptions) {
+        this.directory = path.resolve(options.directory);
+        this.maxSessions = options.maxSessions;
+        this.maxSessionBytes = options.maxSessionBytes;
+        this.readOnly = options.readOnly ?? false;
+        if (!this.readOnly) {
+            fs.mkdirSync(this.directory, { recursive: true });
+        } else if (!fs.existsSync(this.directory)) {
+            throw new Error(`Storage directory ${this.directory} does not exist.`);
+        }
+    }
+
+    /**
+     * Returns the log file path for a session.
+     * @param sessionId The session id (already validated to be filename-safe).
+     */
+    private sessionPath(sessionId: string): string {
+        return path.join(this.directory, `${sessionId}.jsonl`);
+    }
+
+    /**
+     * Reads a session log, repairing a torn trailing line and skipping unparseable lines.
+     * A read-only store skips the torn line without repairing it, since its writer may still be completing it.
+     * @param file Absolute path of the log file.
+     * @returns The parsed events in file order.
+     */
+    private readLog(file: string): SessionEvent[] {
+        let raw = fs.readFileSync(file, 'utf8');
+
+        // A crash mid-append leaves a final line without its newline: drop it.
+        if (raw.length > 0 && !raw.endsWith('\n')) {
+            const lastNewline = raw.lastIndexOf('\n');
+            raw = raw.slice(0, lastNewline + 1);
+            if (this.readOnly) {
+                logger.debug(`Ignoring incomplete trailing record in ${path.basename(file)}.`, { event: 'storage_record_incomplete', file: path.basename(file) });
+            } else {
+                fs.truncateSync(file, Buffer.byteLength(raw, 'utf8'));
+                logger.warn(chalk.yellow(`Warning: Truncated incomplete trailing record in ${path.basename(file)}.`), { event: 'storage_record_truncated', file: path.basename(file) });
+            }
+        }
+
+        const events: SessionEvent[] = [];
+        raw.split('\n').forEach((line, index) => {
+            if (!line.trim()) {
+                return;
+            }
+            try {
+                events.push(JSON.parse(line) as SessionEvent);
+            } catch {
+                logger.warn(chalk.yellow(`Warning: Skipping unreadable record at ${path.basename(file)}:${index + 1}.`), { event: 'storage_record_skipped', file: path.basename(file), line: index + 1 });
+            }
+        });
+        return events;
+    }
+
+    public load(): Map<string, SessionEvent[]> {
+        this.enforceRetention();
+
+        const sessions = new Map<string, SessionEvent[]>();
+        for (const entry of fs.readdirSync(this.directory)) {
+            if (!entry.endsWith('.jsonl')) {
+                continue;
+            }
+            const events = this.readLog(path.join(this.directory, entry));
+            if (events.length > 0) {
+                sessions.set(entry.slice(0, -'.jsonl'.length), events);
+            }
+        }
+        return sessions;
+    }
+
+    public append(sessionId: string, event: SessionEvent): void {
+        if (this.readOnly) {
+            throw new Error(`Storage directory ${this.directory} was opened read-only.`);
+        }
+        const file = this.sessionPath(sessionId);
+        const line = JSON.stringify(event) + '\n';
+
+        if (this.maxSessionBytes !== undefined) {
+            const currentSize = fs.existsSync(file) ? fs.statSync(file).size : 0;
+            if (currentSize + Buffer.byteLength(line, 'utf8') > this.maxSessionBytes) {
+                throw new Error(`Session \`${sessionId}\` has reached its storage limit of ${this.maxSessionBytes} bytes. Start a new session to continue.`);
+            }
+        }
+
+        const fd = fs.openSync(file, 'a');
+        try {
+            fs.writeSync(fd, line);
+            fs.fsyncSync(fd); // Make the record durable before the caller updates its state
+        } finally {
+            fs.closeSync(fd);
+        }
+    }
+
+    public enforceRetention(keepSessionId?: string): string[] {
+        if (this.maxSessions === undefined || this.readOnly) {
+            return [];
+        }
+
+        // Sessions with the oldest last write are removed first; the kept session always ranks newest.
+        const logs = fs.readdirSync(this.directory)
+            .filter(entry => entry.endsWith('.jsonl'))
+            .map(entry => ({
+                sessionId: entry.slice(0, -'.jsonl'.length),
+                mtimeMs: fs.statSync(path.join(this.directory, entry)).mtimeMs,
+            }))
+            .sort((a, b) => Number(b.sessionId === keepSessionId) - Number(a.sessionId === keepSessionId) || b.mtimeMs - a.mtimeMs);
+
+        return logs.slice(this.maxSessions).map(({ sessionId }) => {
+            fs.rmSync(this.sessionPath(sessionId), { force: true });
+            logger.info(chalk.gray(`🗑️  Removed session ${sessionId} (retention limit: ${this.maxSessions} sessions)`), { event: 'session_removed', session: sessionId });
+            return sessionId;
+        });
+    }
+}
@@ -0,0 +1,361 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { beforeEach, describe, it } from 'node:test';
+
+import { BetterThinkingToolLogic, ToolResponse } from '../src/better-thinking-tool.js';
+import { logger } from '../src/logger.js';
+import { loadPolicyConfig, PolicyEngine } from '../src/policies.js';
+import { FileThoughtStore } from '../src/thought-store.js';
+
+logger.setLevel('silent');
+
+/** A minimal valid thought; tests override single fields. */
+const thought = (overrides: Record<string, unknown> = {}) => ({
+    thought: 'Look at the request path first.',
+    thoughtNumber: 1,
+    totalThoughts: 3,
+    nextThoughtNeeded: true,
+    ...overrides,
+});
+
+/** Parses the JSON payload of a tool response. */
+const payloadOf = (response: ToolResponse) => JSON.parse(response.content[0].text);
+
+describe('BetterThinkingToolLogic', () => {
+    let logic: BetterThinkingToolLogic;
+
+    beforeEach(() => {
+        logic = new BetterThinkingToolLogic(undefined, undefined, { render: 'off' });
+    });
+
+    describe('validateThoughtData', () => {
+        const rejections: Array<[string, Record<string, unknown>, RegExp]> = [
+            ['a missing thought', { thought: undefined }, /`thought` is required/],
+            ['an empty thought', { thought: '' }, /`thought` is required/],
+            ['a non-string thought', { thought: 42 }, /`thought` is required/],
+            ['a zero thoughtNumber', { thoughtNumber: 0 }, /`thoughtNumber` is required and must be a positive integer/],
+            ['a fractional thoughtNumber', { thoughtNumber: 1.5 }, /`thoughtNumber`/],
+            ['a string totalThoughts', { totalThoughts: '3' }, /`totalThoughts` is required/],
+            ['a missing nextThoughtNeeded', { nextThoughtNeeded: undefined }, /`nextThoughtNeeded` is required and must be a boolean/],
+            ['a confidence_score above 1', { confidence_score: 1.2 }, /`confidence_score` must be a number between 0.0 and 1.0/],
+            ['a negative confidence_score', { confidence_score: -0.1 }, /`confidence_score`/],
+            ['a non-array knowledge_assessment', { knowledge_assessment: { entity: 'x', status: 'known' } }, /`knowledge_assessment` must be an array/],
+            ['a knowledge_assessment item without entity', { knowledge_assessment: [{ status: 'known' }] }, /index 0: missing or invalid 'entity'/],
+            ['a knowledge_assessment item with an unknown status', { knowledge_assessment: [{ entity: 'x', status: 'maybe' }] }, /'status' must be 'known', 'unknown', or 'uncertain'/],
+            ['a non-integer revisesThought', { isRevision: true, revisesThought: 'one' }, /`revisesThought` must be a positive integer/],
+            ['a zero branchFromThought', { branchFromThought: 0, branchId: 'b' }, /`branchFromThought` must be a positive integer/],
+            ['an unknown method', { method: 'guessing' }, /`method` must be one of/],
+            ['an alternative without decision', { alternatives: [{ option: 'cache' }] }, /'decision' must be 'chosen' or 'rejected'/],
+            ['non-integer evidence', { evidence: [1.5] }, /`evidence` must be an array of positive integer thought numbers/],
+            ['a goal with an unknown status', { goal: { description: 'Fix it', status: 'done' } }, /`goal.status` must be one of/],
+        ];
+
+        for (const [name, overrides, message] of rejections) {
+            it(`rejects ${name}`, () => {
+                const response = logic.processThought(thought(overrides));
+                assert.equal(response.isError, true);
+                assert.match(payloadOf(response).error, message);
+            });
+        }
+
+        it('rejects references to thoughts that do not exist', () => {
+            const response = logic.processThought(thought({ thoughtNumber: 2, isRevision: true, revisesThought: 7 }));
+            assert.equal(response.isError, true);
+        });
+
+        it('records nothing when a thought is rejected', () => {
+            logic.processThought(thought({ confidence_score: 2 }));
+            const response = logic.processThought(thought());
+            assert.equal(payloadOf(response).total_history_length, 1);
+        });
+
+        it('starts no session when the first thought is rejected', () => {
+            logic.processThought(thought({ confidence_score: 2 }));
+            logic.processThought(thought({ thoughtNumber: 2, isRevision: true, revisesThought: 1 }));
+            assert.deepEqual(logic.getSessions(), []);
+            assert.equal(payloadOf(logic.processThought(thought())).session_id, 'session-1');
+        });
+
+        it('starts a session for goals declared without one', () => {
+            assert.equal(logic.declareGoals({ subgoals: ['No goal yet'] }).isError, true);
+            assert.deepEqual(logic.getSessions(), []);
+            logic.declareGoals({ goal: 'Find the leak' });
+            assert.equal(logic.getSessions()[0].goals?.goal, 'Find the leak');
+            assert.equal(payloadOf(logic.processThought(thought())).session_id, 'session-1');
+        });
+
+        it('rejects a missing input with the validation error', () => {
+            const response = logic.processThought(undefined);
+            assert.equal(response.isError, true);
+            assert.match(payloadOf(response).error, /`thought` is required/);
+        });
+    });
+
+    describe('totalThoughts', () => {
+        it('is raised to thoughtNumber when a thought exceeds it', () => {
+            const payload = payloadOf(logic.processThought(thought({ thoughtNumber: 5, totalThoughts: 3 })));
+            assert.equal(payload.current_total_thoughts, 5);
+            assert.deepEqual(payload.warnings, ['thoughtNumber (5) exceeds totalThoughts (3). Adjusting totalThoughts.']);
+            assert.equal(logic.getSessions()[0].thoughtHistory[0].totalThoughts, 5);
+        });
+
+        it('is kept when thoughtNumber is within it', () => {
+            const payload = payloadOf(logic.processThought(thought({ thoughtNumber: 2, totalThoughts: 4 })));
+            assert.equal(payload.current_total_thoughts, 4);
+            assert.deepEqual(payload.warnings, []);
+        });
+    });
+
+    describe('branches', () => {
+        beforeEach(() => {
+            logic.processThought(thought());
+            logic.processThought(thought({ thoughtNumber: 2 }));
+        });
+
+        it('creates a branch from an earlier thought', () => {
+            const payload = payloadOf(logic.processThought(thought({ thoughtNumber: 3, branchFromThought: 1, branchId: 'alt' })));
+            assert.deepEqual(payload.active_branches, ['alt']);
+            assert.equal(payload.graph.line, 'alt');
+            assert.deepEqual(payload.graph.parent, { node_id: 1, thought_number: 1, line: 'main', edge: 'branch' });
+            assert.deepEqual(Object.keys(logic.getSessions()[0].branches), ['alt']);
+        });
+
+        it('continues an existing branch without branchFromThought', () => {
+            logic.processThought(thought({ thoughtNumber: 3, branchFromThought: 1, branchId: 'alt' }));
+            const payload = payloadOf(logic.processThought(thought({ thoughtNumber: 4, branchId: 'alt' })));
+            assert.equal(payload.graph.parent.edge, 'sequence');
+            assert.equal(logic.getSessions()[0].branches.alt.length, 2);
+        });
+
+        it('warns about branchFromThought without branchId', () => {
+            const payload = payloadOf(logic.processThought(thought({ thoughtNumber: 3, branchFromThought: 1 })));
+            assert.ok(payload.warnings.some((warning: string) => warning.startsWith('branchNeedsId:')));
+            assert.deepEqual(payload.active_branches, []);
+        });
+
+        it('rejects a fork from a thought that does not exist', () => {
+            const response = logic.processThought(thought({ thoughtNumber: 3, branchFromThought: 9, branchId: 'alt' }));
+            assert.equal(response.isError, true);
+        });
+    });
+
+    describe('getEffectiveChain', () => {
+        const positions = (response: ToolResponse) => payloadOf(response).thoughts.map((entry: { position: number }) => entry.position);
+
+        beforeEach(() => {
+            for (const thoughtNumber of [1, 2, 3]) {
+                logic.processThought(thought({ thoughtNumber }));
+            }
+        });
+
+        it('replaces a revised thought with its revision', () => {
+            logic.processThought(thought({ thoughtNumber: 4, totalThoughts: 4, isRevision: true, revisesThought: 2 }));
+            const response = logic.getEffectiveChain({});
+            assert.deepEqual(positions(response), [1, 4, 3]);
+            assert.deepEqual(payloadOf(response).superseded, [{ thought_number: 2, revised_by: 4 }]);
+        });
+
+        it('replaces a thought revised twice with its latest revision', () => {
+            logic.processThought(thought({ thoughtNumber: 4, totalThoughts: 5, isRevision: true, revisesThought: 2 }));
+            logic.processThought(thought({ thoughtNumber: 5, totalThoughts: 5, isRevision: true, revisesThought: 2 }));
+            const response = logic.getEffectiveChain({});
+            assert.deepEqual(positions(response), [1, 5, 3]);
+            assert.deepEqual(payloadOf(response).superseded, [{ thought_number: 2, revised_by: 4 }, { thought_number: 4, revised_by: 5 }]);
+        });
+
+        it('accepts "main" for the main line', () => {
+            logic.processThought(thought({ thoughtNumber: 4, branchFromThought: 2, branchId: 'alt' }));
+            assert.deepEqual(positions(logic.getEffectiveChain({ branchId: 'main' })), [1, 2, 3]);
+            assert.deepEqual(positions(logic.getEffectiveChain({ branchId: 'alt' })), [1, 2, 4]);
+        });
+    });
+
+    describe('goal progress', () => {
+        it('ignores sub-goal updates from abandoned branches', () => {
+            logic.declareGoals({ goal: 'Choose a database', subgoals: [{ id: 'load', description: 'Estimate the write load' }] });
+            const load = { id: 'load', description: 'Estimate the write load', status: 'achieved' };
+            logic.processThought(thought());
+            const achieved = payloadOf(logic.processThought(thought({ thoughtNumber: 2, branchFromThought: 1, branchId: 'alt', subgoal: load })));
+            assert.equal(achieved.goal_progress.progress_percent, 100);
+
+            logic.abandonBranch({ branchId: 'alt', reason: 'Measured the wrong service.' });
+            const payload = payloadOf(logic.processThought(thought({ thoughtNumber: 3 })));
+            assert.deepEqual(payload.goal_progress.open_subgoals, ['load']);
+            assert.equal(payload.goal_progress.progress_percent, 0);
+        });
+    });
+
+    describe('summarizeSession', () => {
+        const conclusions = () => payloadOf(logic.summarizeSession({})).key_conclusions
+            .map(({ thought_number, kind }: { thought_number: number; kind: string }) => [thought_number, kind]);
+
+        it('keeps a main-line conclusion revised only on an abandoned branch', () => {
+            logic.processThought(thought());
+            logic.processThought(thought({ thoughtNumber: 2, nextThoughtNeeded: false }));
+            logic.processThought(thought({ thoughtNumber: 3, branchFromThought: 2, branchId: 'alt', isRevision: true, revisesThought: 2 }));
+            logic.abandonBranch({ branchId: 'alt', reason: 'Dead end.' });
+            assert.deepEqual(conclusions(), [[2, 'conclusion']]);
+
+            logic.processThought(thought({ thoughtNumber: 4 }));
+            assert.deepEqual(conclusions(), [[2, 'conclusion'], [4, 'latest']]);
+        });
+
+        it('drops a conclusion revised on its own line', () => {
+            logic.processThought(thought({ nextThoughtNeeded: false }));
+            logic.processThought(thought({ thoughtNumber: 2, isRevision: true, revisesThought: 1 }));
+            assert.deepEqual(conclusions(), [[2, 'latest']]);
+        });
+    });
+
+    describe('analyzeSession', () => {
+        it('does not compare thoughts on interleaved branches', () => {
+            logic.processThought(thought({ confidence_score: 0.6, totalThoughts: 5 }));
+            logic.processThought(thought({ thoughtNumber: 2, branchFromThought: 1, branchId: 'alt', confidence_score: 0.6, totalThoughts: 4 }));
+            logic.processThought(thought({ thoughtNumber: 3, confidence_score: 0.9, totalThoughts: 5 }));
+            logic.processThought(thought({ thoughtNumber: 4, branchId: 'alt', confidence_score: 0.5, totalThoughts: 4 }));
+            logic.processThought(thought({ thoughtNumber: 5, confidence_score: 0.9, totalThoughts: 5 }));
+
+            const { confidence, total_thoughts_drift } = payloadOf(logic.analyzeSession({}));
+            assert.deepEqual(confidence.sharp_drops, []);
+            assert.deepEqual(confidence.trajectory.map((point: { line: string }) => point.line), ['main', 'alt', 'main', 'alt', 'main']);
+            assert.equal(confidence.trend, 'rising');
+            assert.deepEqual(total_thoughts_drift.increases, []);
+        });
+
+        it('reports a drop from the thought a branch forks from', () => {
+            logic.processThought(thought({ confidence_score: 0.9 }));
+            logic.processThought(thought({ thoughtNumber: 2, confidence_score: 0.8 }));
+            logic.processThought(thought({ thoughtNumber: 3, branchFromThought: 1, branchId: 'alt', confidence_score: 0.5 }));
+            assert.deepEqual(payloadOf(logic.analyzeSession({})).confidence.sharp_drops, [{ from_thought: 1, to_thought: 3, from: 0.9, to: 0.5 }]);
+        });
+    });
+
+    describe('needsMoreThoughts', () => {
+        it('is accepted with a deprecation warning', () => {
+            const payload = payloadOf(logic.processThought(thought({ needsMoreThoughts: true })));
+            assert.equal(payload.status, 'success');
+            assert.ok(payload.warnings.some((warning: string) => warning.startsWith('noDeprecatedFields:')));
+        });
+
+        it('does not replace nextThoughtNeeded', () => {
+            const payload = payloadOf(logic.processThought(thought({ needsMoreThoughts: true, nextThoughtNeeded: false })));
+            assert.equal(payload.next_thought_needed, false);
+            assert.equal('needsMoreThoughts' in logic.getSessions()[0].thoughtHistory[0], false);
+        });
+
+        it('still requires nextThoughtNeeded', () => {
+            const response = logic.processThought(thought({ needsMoreThoughts: true, nextThoughtNeeded: undefined }));
+            assert.equal(response.isError, true);
+        });
+    });
+
+    describe('session policies', () => {
+        const withServerRules = (...overrides: string[]) =>
+            new BetterThinkingToolLogic(undefined, new PolicyEngine(loadPolicyConfig({ overrides })), { render: 'off' });
+
+        it('keeps the server limit when a session only raises the severity', () => {
+            const strict = withServerRules('maxThoughtsPerSession=warn:2');
+            strict.startSession({ policies: { maxThoughtsPerSession: 'error' } });
+            strict.processThought(thought());
+            strict.processThought(thought({ thoughtNumber: 2 }));
+            const response = strict.processThought(thought({ thoughtNumber: 3 }));
+            assert.equal(response.isError, true);
+            assert.deepEqual(payloadOf(response).policy_violations.map((violation: { rule: string }) => violation.rule), ['maxThoughtsPerSession']);
+        });
+
+        it('applies the stricter of two limits', () => {
+            const strict = withServerRules('maxThoughtLength=error:4000', 'minThoughtLength=error:10');
+            strict.startSession({ policies: { maxThoughtLength: { severity: 'error', limit: 40 }, minThoughtLength: { severity: 'error', limit: 5 } } });
+            assert.equal(strict.processThought(thought({ thought: 'x'.repeat(41) })).isError, true);
+            assert.equal(strict.processThought(thought({ thought: 'Too short' })).isError, true);
+            assert.equal(strict.processThought(thought({ thought: 'Long enough to pass.' })).isError, undefined);
+        });
+    });
+
+    describe('importSession', () => {
+        /** Exports the active session as a parsed JSON document. */
+        const exported = () => JSON.parse(payloadOf(logic.exportSession({ format: 'json' })).document);
+
+        it('rejects timestamps that are not ISO strings', () => {
+            logic.processThought(thought());
+            for (const session of [{ createdAt: 5 }, { closedAt: 'yesterday' }]) {
+                const document = exported();
+                Object.assign(document.session, session);
+                const response = logic.importSession({ document, sessionId: 'imported' });
+                assert.equal(response.isError, true);
+                assert.match(payloadOf(response).error, /must be an ISO timestamp/);
+            }
+            assert.equal(logic.getSession('imported'), undefined);
+        });
+
+        it('rejects thoughts recorded on a branch after it was resolved', () => {
+            logic.processThought(thought());
+            logic.processThought(thought({ thoughtNumber: 2, branchFromThought: 1, branchId: 'alt' }));
+            logic.abandonBranch({ branchId: 'alt', reason: 'Dead end.' });
+            const document = exported();
+            document.session.branchResolutions.alt.position = 1;
+
+            const response = logic.importSession({ document, sessionId: 'imported' });
+            assert.equal(response.isError, true);
+            assert.match(payloadOf(response).error, /branch has no thoughts before position 1/);
+
+            document.thoughts.push(thought({ thoughtNumber: 3, branchId: 'alt' }));
+            document.session.branchResolutions.alt.position = 2;
+            const late = logic.importSession({ document, sessionId: 'imported' });
+            assert.equal(late.isError, true);
+            assert.match(payloadOf(late).error, /index 2 of the export: Branch `alt` was abandoned/);
+        });
+
+        it('applies the store retention limit', () => {
+            const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'better-thinking-import-'));
+            try {
+                const limited = new BetterThinkingToolLogic(new FileThoughtStore({ directory, maxSessions: 2 }), undefined, { render: 'off' });
+                limited.startSession({ sessionId: 'first' });
+                limited.startSession({ sessionId: 'second' });
+                limited.processThought(thought());
+                const { document } = payloadOf(limited.exportSession({ format: 'json' }));
+
+                assert.equal(limited.importSession({ document, sessionId: 'imported' }).isError, undefined);
+                assert.deepEqual(limited.getSessions().map(session => session.id), ['second', 'imported']);
+                assert.deepEqual(fs.readdirSync(directory).sort(), ['imported.jsonl', 'second.jsonl']);
+            } finally {
+                fs.rmSync(directory, { recursive: true, force: true });
+            }
+        });
+    });
+
+    describe('payloads', () => {
+        it('returns a single pretty-printed JSON text on success', () => {
+            const response = logic.processThought(thought({ confidence_score: 0.6 }));
+            assert.equal(response.isError, undefined);
+            assert.equal(response.content.length, 1);
+            assert.equal(response.content[0].type, 'text');
+            assert.equal(response.content[0].text, JSON.stringify(payloadOf(response), null, 2));
+            assert.deepEqual(Object.keys(payloadOf(response)), [
+                'status', 'session_id', 'thought_number_processed', 'current_total_thoughts', 'next_thought_needed',
+                'active_branches', 'total_history_length', 'graph', 'goal_progress', 'warnings',
+            ]);
+        });
+
+        it('includes the analysis only when asked for', () => {
+            assert.equal('analysis' in payloadOf(logic.processThought(thought())), false);
+            assert.equal(typeof payloadOf(logic.processThought(thought({ thoughtNumber: 2, includeAnalysis: true }))).analysis, 'object');
+        });
+
+        it('returns status and error on failure', () => {
+            const response = logic.processThought({});
+            assert.equal(response.isError, true);
+            assert.equal(response.content.length, 1);
+            assert.deepEqual(payloadOf(response), { status: 'failed', error: 'Invalid input: `thought` is required and must be a non-empty string.' });
+        });
+
+        it('lists every violated rule when a policy rejects a thought', () => {
+            logic.startSession({ policies: { requireConfidence: 'error' } });
+            const payload = payloadOf(logic.processThought(thought()));
+            assert.equal(payload.status, 'failed');
+            assert.deepEqual(payload.policy_violations.map((violation: { rule: string }) => violation.rule), ['requireConfidence']);
+        });
+    });
+});
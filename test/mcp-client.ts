@@ -0,0 +1,62 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+import { BetterThinkingToolLogic } from '../src/better-thinking-tool.js';
+import { createServer } from '../src/mcp-server.js';
+
+// --- Interfaces ---
+
+/**
+ * The parsed result of a tool call: the JSON payload of its single text content, and whether it failed.
+ */
+export interface ToolCallResult {
+    isError: boolean;
+    payload: any;
+}
+
+/**
+ * An MCP client connected in-process to a server created by `createServer`.
+ */
+export interface McpClientFixture {
+    client: Client;
+    /** The logic instance behind the server, for inspecting sessions directly. */
+    toolLogic: BetterThinkingToolLogic;
+    /** Calls a tool through the MCP protocol and parses its JSON payload. */
+    callTool(name: string, args?: Record<string, unknown>): Promise<ToolCallResult>;
+    /** Closes both ends of the transport. */
+    close(): Promise<void>;
+}
+
+// --- Fixture ---
+
+/**
+ * Connects an MCP client to a fresh server over a linked pair of in-memory transports, so requests
+ * go through the same `ListTools`/`CallTool` handlers as over stdio or HTTP.
+ * @param toolLogic The logic the server works on (Optional, defaults to an in-memory instance without console rendering).
+ */
+export async function connectClient(toolLogic: BetterThinkingToolLogic = new BetterThinkingToolLogic(undefined, undefined, { render: 'off' })): Promise<McpClientFixture> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const server = createServer(toolLogic);
+    const client = new Client({ name: 'better-thinking-tests', version: '0.0.0' }, { capabilities: {} });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    return {
+        client,
+        toolLogic,
+        async callTool(name, args = {}) {
+            const result = await client.callTool({ name, arguments: args });
+            const [content] = result.content as Array<{ type: string; text: string }>;
+            let payload: unknown = content.text;
+            try {
+                payload = JSON.parse(content.text);
+            } catch {
+                // Plain-text responses, e.g. for unknown tools, are returned as they are
+            }
+            return { isError: result.isError === true, payload };
+        },
+        async close() {
+            await client.close();
+            await server.close();
+        },
+    };
+}
@@ -0,0 +1,122 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+
+import { logger } from '../src/logger.js';
+import { connectClient, McpClientFixture } from './mcp-client.js';
+
+logger.setLevel('silent');
+
+describe('MCP server', () => {
+    let fixture: McpClientFixture;
+
+    beforeEach(async () => {
+        fixture = await connectClient();
+    });
+
+    afterEach(async () => {
+        await fixture.close();
+    });
+
+    it('lists every tool with an object input schema', async () => {
+        const { tools } = await fixture.client.listTools();
+        const names = tools.map(tool => tool.name);
+        assert.equal(names[0], 'better_thinking');
+        for (const name of ['start_thinking_session', 'abandon_branch', 'summarize_thinking_session', 'import_thinking_session']) {
+            assert.ok(names.includes(name), `${name} is listed`);
+        }
+        assert.equal(new Set(names).size, names.length);
+        for (const tool of tools) {
+            assert.equal(tool.inputSchema.type, 'object', `${tool.name} has an object schema`);
+        }
+    });
+
+    it('requires the core fields of better_thinking', async () => {
+        const { tools } = await fixture.client.listTools();
+        const schema = tools.find(tool => tool.name === 'better_thinking')!.inputSchema as { required: string[] };
+        assert.deepEqual([...schema.required].sort(), ['nextThoughtNeeded', 'thought', 'thoughtNumber', 'totalThoughts']);
+    });
+
+    it('routes tool calls to the logic', async () => {
+        const result = await fixture.callTool('better_thinking', { thought: 'First step', thoughtNumber: 1, totalThoughts: 2, nextThoughtNeeded: true });
+        assert.equal(result.isError, false);
+        assert.equal(result.payload.status, 'success');
+        assert.equal(fixture.toolLogic.getSessions()[0].thoughtHistory.length, 1);
+    });
+
+    it('returns tool errors as results rather than protocol errors', async () => {
+        const result = await fixture.callTool('better_thinking', { thought: 'No number', totalThoughts: 2, nextThoughtNeeded: true });
+        assert.equal(result.isError, true);
+        assert.equal(result.payload.status, 'failed');
+        assert.match(result.payload.error, /`thoughtNumber` is required/);
+    });
+
+    it('answers calls to unknown tools with an error result', async () => {
+        const result = await fixture.callTool('no_such_tool');
+        assert.equal(result.isError, true);
+        assert.equal(result.payload, 'Unknown tool: no_such_tool');
+    });
+
+    it('follows the compare_hypotheses prompt without errors', async () => {
+        const prompt = await fixture.client.getPrompt({ name: 'compare_hypotheses', arguments: { question: 'Why is the cache cold?', hypotheses: 'eviction; restarts' } });
+        const text = (prompt.messages[0].content as { text: string }).text;
+        const sessionId = /session `([^`]+)`/.exec(text)![1];
+        assert.doesNotMatch(text, /mergeIntoThought/);
+
+        const step = (thoughtNumber: number, overrides: Record<string, unknown> = {}) => ({
+            sessionId, thought: `Step ${thoughtNumber} of the comparison.`, thoughtNumber, totalThoughts: 4, nextThoughtNeeded: true, confidence_score: 0.7, ...overrides,
+        });
+        const calls: Array<[string, Record<string, unknown>]> = [
+            ['better_thinking', step(1)],
+            ['better_thinking', step(2, { branchFromThought: 1, branchId: 'h1' })],
+            ['better_thinking', step(3, { branchFromThought: 1, branchId: 'h2' })],
+            ['compare_branches', { sessionId, branchA: 'h1', branchB: 'h2' }],
+            ['better_thinking', step(4, { nextThoughtNeeded: false })],
+            ['adopt_branch', { sessionId, branchId: 'h1', reason: 'Matches the eviction metrics.' }],
+            ['abandon_branch', { sessionId, branchId: 'h2', reason: 'No restarts in the window.' }],
+        ];
+        for (const [name, args] of calls) {
+            const result = await fixture.callTool(name, args);
+            assert.equal(result.isError, false, `${name} failed: ${JSON.stringify(result.payload)}`);
+        }
+    });
+
+    it('does not change the active session when a prompt is fetched', async () => {
+        await fixture.callTool('start_thinking_session', { sessionId: 'current' });
+        const prompt = await fixture.client.getPrompt({ name: 'estimation', arguments: { quantity: 'Piano tuners in Chicago' } });
+        assert.match((prompt.messages[0].content as { text: string }).text, /Pass `sessionId: "session-1"` on every tool call/);
+
+        const { payload } = await fixture.callTool('better_thinking', { thought: 'Unrelated step', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: true });
+        assert.equal(payload.session_id, 'current');
+    });
+
+    it('notifies session subscribers of goals, checkpoints and closing', async () => {
+        const updated: string[] = [];
+        fixture.client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+            updated.push(notification.params.uri);
+        });
+        await fixture.callTool('start_thinking_session', { sessionId: 'watched' });
+        await fixture.client.subscribeResource({ uri: 'thinking://sessions/watched' });
+
+        await fixture.callTool('declare_goals', { goal: 'Find the leak' });
+        await fixture.callTool('summarize_thinking_session', { checkpoint: true });
+        await fixture.callTool('close_thinking_session', {});
+        assert.deepEqual(updated, ['thinking://sessions/watched', 'thinking://sessions/watched', 'thinking://sessions/watched']);
+
+        const resource = await fixture.client.readResource({ uri: 'thinking://sessions/watched' });
+        const document = JSON.parse((resource.contents[0] as { text: string }).text);
+        assert.equal(document.status, 'closed');
+        assert.equal(document.checkpoint.position, 0);
+    });
+
+    it('keeps sessions across calls of one connection', async () => {
+        await fixture.callTool('start_thinking_session', { sessionId: 'first' });
+        await fixture.callTool('start_thinking_session', { sessionId: 'second' });
+        await fixture.callTool('better_thinking', { sessionId: 'first', thought: 'In the first session', thoughtNumber: 1, totalThoughts: 1, nextThoughtNeeded: false });
+
+        const { payload } = await fixture.callTool('list_thinking_sessions');
+        const counts = Object.fromEntries(payload.sessions.map((session: { session_id: string; total_history_length: number }) => [session.session_id, session.total_history_length]));
+        assert.deepEqual(counts, { first: 1, second: 0 });
+    });
+});
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+
+import { logger } from '../src/logger.js';
+import { connectClient } from './mcp-client.js';
+
+logger.setLevel('silent');
+
+// --- Session Scripts ---
+// Each `test/sessions/<name>.json` script lists tool calls that are replayed, in order, against a fresh
+// server. The parsed responses must equal `<name>.golden.json`. Run with UPDATE_GOLDEN=1 to rewrite
+// the golden files after an intended change, and review their diff.
+
+/**
+ * A replayable session script.
+ */
+interface SessionScript {
+    description: string;
+    steps: Array<{ tool: string; arguments?: Record<string, unknown> }>;
+}
+
+/** Tests run from `dist/test`, while the scripts stay next to the sources. */
+const SCRIPTS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../test/sessions');
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * Replaces values that differ between runs, so responses can be compared with golden files.
+ */
+function normalize(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return ISO_TIMESTAMP.test(value) ? '<timestamp>' : value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(normalize);
+    }
+    if (typeof value === 'object' && value !== null) {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, normalize(entry)]));
+    }
+    return value;
+}
+
+/**
+ * Replays a script through an in-process MCP client.
+ * @returns One entry per step with the tool name, whether it failed and the normalized payload.
+ */
+async function replay(script: SessionScript): Promise<unknown[]> {
+    const fixture = await connectClient();
+    try {
+        const results: unknown[] = [];
+        for (const step of script.steps) {
+            const { isError, payload } = await fixture.callTool(step.tool, step.arguments);
+            results.push({ tool: step.tool, is_error: isError, response: normalize(payload) });
+        }
+        return results;
+    } finally {
+        await fixture.close();
+    }
+}
+
+describe('session scripts', () => {
+    const names = fs.readdirSync(SCRIPTS_DIR)
+        .filter(file => file.endsWith('.json') && !file.endsWith('.golden.json'))
+        .map(file => file.slice(0, -'.json'.length))
+        .sort();
+
+    for (const name of names) {
+        const script = JSON.parse(fs.readFileSync(path.join(SCRIPTS_DIR, `${name}.json`), 'utf8')) as SessionScript;
+
+        it(`${name}: ${script.description}`, async () => {
+            const actual = await replay(script);
+            const goldenFile = path.join(SCRIPTS_DIR, `${name}.golden.json`);
+            if (process.env.UPDATE_GOLDEN) {
+                fs.writeFileSync(goldenFile, `${JSON.stringify(actual, null, 2)}\n`);
+                return;
+            }
+            assert.ok(fs.existsSync(goldenFile), `${name}.golden.json is missing; run the tests with UPDATE_GOLDEN=1 to create it`);
+            assert.deepEqual(actual, JSON.parse(fs.readFileSync(goldenFile, 'utf8')));
+        });
+    }
+
+    it('replays the same script to the same responses', async () => {
+        const script = JSON.parse(fs.readFileSync(path.join(SCRIPTS_DIR, `${names[0]}.json`), 'utf8')) as SessionScript;
+        assert.deepEqual(await replay(script), await replay(script));
+    });
+});
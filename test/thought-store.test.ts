@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+
+import { logger } from '../src/logger.js';
+import { FileThoughtStore } from '../src/thought-store.js';
+
+logger.setLevel('silent');
+
+describe('FileThoughtStore', () => {
+    let directory: string;
+    let log: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'better-thinking-store-'));
+        log = path.join(directory, 's.jsonl');
+        new FileThoughtStore({ directory }).append('s', { type: 'session_started', at: '2024-01-01T00:00:00.000Z', sessionId: 's' });
+        fs.appendFileSync(log, '{"type":"thought","at":'); // A record the writer has not completed yet
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('truncates an incomplete trailing record when loading for writing', () => {
+        const sessions = new FileThoughtStore({ directory }).load();
+        assert.equal(sessions.get('s')!.length, 1);
+        assert.ok(fs.readFileSync(log, 'utf8').endsWith('}\n'));
+    });
+
+    it('leaves an incomplete trailing record alone when read-only', () => {
+        const before = fs.readFileSync(log, 'utf8');
+        const store = new FileThoughtStore({ directory, readOnly: true });
+        assert.equal(store.load().get('s')!.length, 1);
+        assert.equal(fs.readFileSync(log, 'utf8'), before);
+        assert.throws(() => store.append('s', { type: 'session_closed', at: '2024-01-01T00:00:00.000Z' }), /read-only/);
+    });
+});